@@ -3,27 +3,48 @@ import { View } from './types';
 import LoadingScreen from './components/LoadingScreen';
 import BibleSearch from './components/BibleSearch'; 
 import { triggerSmartAd } from './services/gemini';
+import { syncReminders, REMINDERS_EVENT, OPEN_VERSE_EVENT } from './services/notifications';
+import { PLANS_EVENT } from './services/readingPlans';
+import { OPEN_BIO_EVENT } from './services/liveTools';
+import { PREFERENCES_EVENT, loadPreferences, savePreferences } from './services/preferences';
+import { LANGUAGES } from './constants';
 
 const MissionaryBio = lazy(() => import('./components/MissionaryBio'));
 const SermonBuilder = lazy(() => import('./components/SermonBuilder'));
 const AudioCompanion = lazy(() => import('./components/AudioCompanion'));
 const HistoryView = lazy(() => import('./components/HistoryView'));
+const ReadingPlans = lazy(() => import('./components/ReadingPlans'));
+const AnnotationsView = lazy(() => import('./components/AnnotationsView'));
+const SettingsView = lazy(() => import('./components/SettingsView'));
 
-const LANGUAGES = [
-  { code: 'en-US', name: 'English' }, { code: 'hi-IN', name: 'Hindi' }, { code: 'ta-IN', name: 'Tamil' }, { code: 'te-IN', name: 'Telugu' },
-  { code: 'ml-IN', name: 'Malayalam' }, { code: 'kn-IN', name: 'Kannada' }, { code: 'mr-IN', name: 'Marathi' }, { code: 'gu-IN', name: 'Gujarati' },
-  { code: 'pa-IN', name: 'Punjabi' }, { code: 'bn-IN', name: 'Bengali' }, { code: 'ur-PK', name: 'Urdu' }, { code: 'es-ES', name: 'Spanish' },
-  { code: 'fr-FR', name: 'French' }, { code: 'de-DE', name: 'German' }, { code: 'it-IT', name: 'Italian' }, { code: 'pt-BR', name: 'Portuguese' },
-  { code: 'ru-RU', name: 'Russian' }, { code: 'zh-CN', name: 'Chinese' }, { code: 'ja-JP', name: 'Japanese' }, { code: 'ko-KR', name: 'Korean' },
-  { code: 'ar-SA', name: 'Arabic' }, { code: 'id-ID', name: 'Indonesian' }, { code: 'th-TH', name: 'Thai' }, { code: 'vi-VN', name: 'Vietnamese' }
-];
+// Reminder notifications open /?view=plans; verse links are handled by BibleSearch
+const linkedView = (url: string) =>
+  new URL(url, window.location.origin).searchParams.get('view') === 'plans' ? View.READING_PLANS : View.BIBLE_SEARCH;
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<View>(View.BIBLE_SEARCH);
-  const [language, setLanguage] = useState<string>('en-US');
-  const [darkMode, setDarkMode] = useState(false);
+  const [currentView, setCurrentView] = useState<View>(() => linkedView(window.location.href));
+  const [preferences, setPreferences] = useState(loadPreferences);
+  const [systemDark, setSystemDark] = useState(() => !!window.matchMedia?.('(prefers-color-scheme: dark)').matches);
+  const { language } = preferences;
+  const darkMode = preferences.theme === 'dark' || (preferences.theme === 'system' && systemDark);
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
-  const [visitedViews, setVisitedViews] = useState<Set<View>>(new Set([View.BIBLE_SEARCH]));
+  const [visitedViews, setVisitedViews] = useState<Set<View>>(() => new Set([View.BIBLE_SEARCH, currentView]));
+  // A biography the voice counselor opened; a prop, since Missions may not be mounted yet
+  const [bioRequest, setBioRequest] = useState<{ name: string; at: number } | null>(null);
+
+  useEffect(() => {
+    const load = () => setPreferences(loadPreferences());
+    window.addEventListener(PREFERENCES_EVENT, load);
+    return () => window.removeEventListener(PREFERENCES_EVENT, load);
+  }, []);
+
+  useEffect(() => {
+    const media = window.matchMedia?.('(prefers-color-scheme: dark)');
+    if (!media) return;
+    const onChange = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, []);
 
   useEffect(() => {
     if (darkMode) document.documentElement.classList.add('dark');
@@ -54,6 +75,41 @@ const App: React.FC = () => {
     });
   };
 
+  // Keep scheduled reminders in step with the settings and reading progress
+  useEffect(() => {
+    const sync = () => { syncReminders(); };
+    sync();
+    window.addEventListener(REMINDERS_EVENT, sync);
+    window.addEventListener(PLANS_EVENT, sync);
+    return () => {
+      window.removeEventListener(REMINDERS_EVENT, sync);
+      window.removeEventListener(PLANS_EVENT, sync);
+    };
+  }, []);
+
+  // A tapped notification while the app is already open
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'OPEN_URL') return;
+      const url: string = event.data.url;
+      changeView(linkedView(url));
+      const verse = new URL(url, window.location.origin).searchParams.get('verse');
+      if (verse) window.dispatchEvent(new CustomEvent(OPEN_VERSE_EVENT, { detail: verse }));
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, [currentView]);
+
+  useEffect(() => {
+    const openBio = (event: Event) => {
+      setBioRequest({ name: (event as CustomEvent<string>).detail, at: Date.now() });
+      changeView(View.MISSIONARY);
+    };
+    window.addEventListener(OPEN_BIO_EVENT, openBio);
+    return () => window.removeEventListener(OPEN_BIO_EVENT, openBio);
+  }, [currentView]);
+
   const NavButton = ({ view, label, icon, disabled = false }: { view: View; label: string; icon: React.ReactNode, disabled?: boolean }) => (
     <button
       onClick={() => !disabled && changeView(view)}
@@ -85,18 +141,21 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-2 shrink-0">
-          <button onClick={() => setDarkMode(!darkMode)} className="p-2 text-slate-400 hover:text-amber-500 dark:text-slate-500 dark:hover:text-yellow-300 transition-colors">
+          <button onClick={() => savePreferences({ theme: darkMode ? 'light' : 'dark' })} className="p-2 text-slate-400 hover:text-amber-500 dark:text-slate-500 dark:hover:text-yellow-300 transition-colors">
               {darkMode ? <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
               : <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" /></svg>}
           </button>
           <div className="relative">
-            <select value={language} onChange={(e) => setLanguage(e.target.value)} className="appearance-none bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 py-2 pl-3 pr-8 rounded-lg text-xs font-bold uppercase tracking-wide focus:outline-none focus:ring-2 focus:ring-indigo-500 max-w-[100px] shadow-sm">
+            <select value={language} onChange={(e) => savePreferences({ language: e.target.value })} className="appearance-none bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 py-2 pl-3 pr-8 rounded-lg text-xs font-bold uppercase tracking-wide focus:outline-none focus:ring-2 focus:ring-indigo-500 max-w-[100px] shadow-sm">
               {LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
             </select>
             <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
               <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
             </div>
           </div>
+          <button onClick={() => changeView(View.SETTINGS)} aria-label="Settings" className={`p-2 transition-colors ${currentView === View.SETTINGS ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400 hover:text-indigo-600 dark:text-slate-500 dark:hover:text-indigo-400'}`}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+          </button>
         </div>
       </header>
 
@@ -104,13 +163,16 @@ const App: React.FC = () => {
 
       <main className="flex-1 w-full flex flex-col pb-40">
         <div className={`${currentView === View.BIBLE_SEARCH ? 'flex flex-1 flex-col w-full' : 'hidden'}`}>
-           <BibleSearch language={language} />
+           <BibleSearch language={language} isOffline={isOffline} />
         </div>
         <Suspense fallback={<LoadingScreen />}>
-          {visitedViews.has(View.MISSIONARY) && <div className={`${currentView === View.MISSIONARY ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><MissionaryBio language={language} /></div>}
+          {visitedViews.has(View.MISSIONARY) && <div className={`${currentView === View.MISSIONARY ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><MissionaryBio language={language} request={bioRequest} /></div>}
           {visitedViews.has(View.SERMON) && <div className={`${currentView === View.SERMON ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><SermonBuilder language={language} /></div>}
           {visitedViews.has(View.AUDIO_COMPANION) && <div className={`${currentView === View.AUDIO_COMPANION ? 'block h-[85vh] min-h-[500px] w-full' : 'hidden'}`}><AudioCompanion language={language} isActiveView={currentView === View.AUDIO_COMPANION && !isOffline} /></div>}
+          {visitedViews.has(View.READING_PLANS) && <div className={`${currentView === View.READING_PLANS ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><ReadingPlans language={language} isOffline={isOffline} /></div>}
+          {visitedViews.has(View.ANNOTATIONS) && <div className={`${currentView === View.ANNOTATIONS ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><AnnotationsView /></div>}
           {visitedViews.has(View.HISTORY) && <div className={`${currentView === View.HISTORY ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><HistoryView /></div>}
+          {visitedViews.has(View.SETTINGS) && <div className={`${currentView === View.SETTINGS ? 'flex flex-1 flex-col w-full' : 'hidden'}`}><SettingsView /></div>}
         </Suspense>
       </main>
 
@@ -120,6 +182,8 @@ const App: React.FC = () => {
           <NavButton view={View.MISSIONARY} label="Missions" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>} />
           <NavButton view={View.SERMON} label="Sermons" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" /></svg>} />
           <NavButton view={View.AUDIO_COMPANION} label="Live" disabled={isOffline} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>} />
+          <NavButton view={View.READING_PLANS} label="Plans" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>} />
+          <NavButton view={View.ANNOTATIONS} label="Saved" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>} />
           <NavButton view={View.HISTORY} label="History" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>} />
         </div>
       </nav>
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef, createContext } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  Annotation, AnnotationSource, HighlightColor, HIGHLIGHT_COLORS, ANNOTATIONS_EVENT,
+  newAnnotation, saveAnnotation, deleteAnnotation, getAnnotationsFor, getCollections, isEmptyAnnotation,
+} from '../services/annotations';
+
+export const HIGHLIGHT_STYLES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-200/80 dark:bg-yellow-500/30',
+  green: 'bg-emerald-200/80 dark:bg-emerald-500/30',
+  blue: 'bg-sky-200/80 dark:bg-sky-500/30',
+  pink: 'bg-pink-200/80 dark:bg-pink-500/30',
+};
+
+// Notes and bookmarks without a colour are underlined instead
+export const markClass = (a: Annotation) =>
+  a.color ? `${HIGHLIGHT_STYLES[a.color]} text-inherit rounded-sm cursor-pointer` : 'bg-transparent text-inherit underline decoration-indigo-400 decoration-2 underline-offset-4 cursor-pointer';
+
+const SWATCH_STYLES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300', green: 'bg-emerald-300', blue: 'bg-sky-300', pink: 'bg-pink-300',
+};
+
+// Shorter selections are usually a stray tap
+const MIN_SELECTION = 3;
+
+// The annotations of the result being read, for ScriptureText to draw, and a way to open one
+export const AnnotationContext = createContext<{ annotations: Annotation[]; edit: (a: Annotation) => void } | null>(null);
+
+interface AnnotatableProps {
+  source: AnnotationSource;
+  title: string;
+  // While a result is still streaming its text keeps changing under the selection
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+// Wraps a generated result so any passage in it can be selected and highlighted, given a
+// note or bookmarked into a collection
+const Annotatable: React.FC<AnnotatableProps> = ({ source, title, disabled = false, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ annotation: Annotation; isNew: boolean } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => getAnnotationsFor(source, title).then(items => { if (!cancelled) setAnnotations(items); });
+    load();
+    window.addEventListener(ANNOTATIONS_EVENT, load);
+    return () => { cancelled = true; window.removeEventListener(ANNOTATIONS_EVENT, load); };
+  }, [source, title]);
+
+  useEffect(() => {
+    setSelected(null);
+    if (disabled) return;
+    const onSelectionChange = () => {
+      const selection = window.getSelection();
+      const container = containerRef.current;
+      if (!selection || selection.isCollapsed || !container || !container.contains(selection.getRangeAt(0).commonAncestorContainer)) {
+        setSelected(null);
+        return;
+      }
+      const text = selection.toString().trim();
+      setSelected(text.length >= MIN_SELECTION ? text : null);
+    };
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => document.removeEventListener('selectionchange', onSelectionChange);
+  }, [disabled]);
+
+  const clearSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    setSelected(null);
+  };
+
+  const highlight = async (color: HighlightColor) => {
+    if (!selected) return;
+    try {
+      await saveAnnotation({ ...newAnnotation(source, title, selected), color });
+    } catch (e) {
+      alert("Could not save the highlight.");
+    }
+    clearSelection();
+  };
+
+  const openEditor = (bookmark: boolean) => {
+    if (!selected) return;
+    setEditing({ annotation: { ...newAnnotation(source, title, selected), bookmarked: bookmark }, isNew: true });
+    clearSelection();
+  };
+
+  return (
+    <AnnotationContext.Provider value={{ annotations, edit: (annotation) => setEditing({ annotation, isNew: false }) }}>
+      <div ref={containerRef}>{children}</div>
+      {selected && createPortal(
+        <div
+          // Keep the selection alive while a button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+          className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[55] flex items-center gap-1 bg-slate-900 dark:bg-slate-800 text-white rounded-2xl shadow-2xl px-3 py-2 animate-in fade-in slide-in-from-bottom-4"
+        >
+          {HIGHLIGHT_COLORS.map(color => (
+            <button key={color} onClick={() => highlight(color)} aria-label={`Highlight ${color}`} className={`w-6 h-6 rounded-full border-2 border-white/30 hover:scale-110 transition-transform ${SWATCH_STYLES[color]}`}></button>
+          ))}
+          <span className="w-px h-6 bg-white/20 mx-1"></span>
+          <button onClick={() => openEditor(false)} className="text-xs font-bold uppercase tracking-wider px-2 py-1.5 rounded-lg hover:bg-white/10 transition-colors">Note</button>
+          <button onClick={() => openEditor(true)} className="text-xs font-bold uppercase tracking-wider px-2 py-1.5 rounded-lg hover:bg-white/10 transition-colors">Bookmark</button>
+        </div>,
+        document.body
+      )}
+      {editing && createPortal(<AnnotationEditor annotation={editing.annotation} isNew={editing.isNew} onClose={() => setEditing(null)} />, document.body)}
+    </AnnotationContext.Provider>
+  );
+};
+
+interface AnnotationEditorProps {
+  annotation: Annotation;
+  isNew: boolean;
+  onClose: () => void;
+}
+
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotation, isNew, onClose }) => {
+  const [draft, setDraft] = useState<Annotation>(annotation);
+  const [collections, setCollections] = useState<string[]>([]);
+  const [newCollection, setNewCollection] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getCollections().then(setCollections);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const update = (patch: Partial<Annotation>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const toggleCollection = (name: string) =>
+    update({ collections: draft.collections.includes(name) ? draft.collections.filter(c => c !== name) : [...draft.collections, name] });
+
+  const addCollection = () => {
+    const name = newCollection.trim();
+    if (!name) return;
+    if (!collections.includes(name)) setCollections(prev => [...prev, name].sort((a, b) => a.localeCompare(b)));
+    if (!draft.collections.includes(name)) update({ collections: [...draft.collections, name] });
+    setNewCollection('');
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveAnnotation(draft);
+      onClose();
+    } catch (e) {
+      alert("Could not save this annotation.");
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await deleteAnnotation(draft.id);
+      onClose();
+    } catch (e) {
+      alert("Could not delete this annotation.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-end md:items-center justify-center animate-in fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Annotation"
+        className="bg-white dark:bg-slate-900 w-full md:max-w-lg max-h-[80vh] overflow-y-auto rounded-t-3xl md:rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-800 p-5 md:p-6 pb-safe animate-in slide-in-from-bottom-8 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 truncate">{draft.title}</p>
+          <button onClick={onClose} aria-label="Close" className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <blockquote className="border-l-4 border-indigo-200 dark:border-indigo-800 pl-4 font-serif italic text-slate-800 dark:text-slate-200 leading-relaxed line-clamp-6">
+          <span className={draft.color ? HIGHLIGHT_STYLES[draft.color] : ''}>{draft.text}</span>
+        </blockquote>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-400 mr-1">Highlight</span>
+          {HIGHLIGHT_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => update({ color: draft.color === color ? null : color })}
+              aria-label={`Highlight ${color}`}
+              aria-pressed={draft.color === color}
+              className={`w-7 h-7 rounded-full transition-transform ${SWATCH_STYLES[color]} ${draft.color === color ? 'ring-2 ring-offset-2 ring-indigo-500 dark:ring-offset-slate-900 scale-110' : 'hover:scale-110'}`}
+            ></button>
+          ))}
+        </div>
+
+        <textarea
+          value={draft.note}
+          onChange={(e) => update({ note: e.target.value })}
+          placeholder="Add a note..."
+          rows={3}
+          autoFocus={isNew && !draft.bookmarked}
+          className="w-full p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+        />
+
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200 cursor-pointer">
+          <input type="checkbox" checked={draft.bookmarked} onChange={(e) => update({ bookmarked: e.target.checked })} className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500" />
+          Bookmark
+        </label>
+
+        {draft.bookmarked && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {collections.map(name => (
+                <button key={name} onClick={() => toggleCollection(name)} className={`text-xs px-2.5 py-1.5 rounded-lg border transition-colors ${draft.collections.includes(name) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-300'}`}>
+                  {name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newCollection}
+                onChange={(e) => setNewCollection(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addCollection()}
+                placeholder="New collection, e.g. Easter series"
+                className="flex-1 p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <button onClick={addCollection} disabled={!newCollection.trim()} className="text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 px-3 py-2 rounded-lg disabled:opacity-50 transition-colors">Add</button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          {!isNew && (
+            <button onClick={remove} className="text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 px-3 py-2 rounded-lg transition-colors">Delete</button>
+          )}
+          <button onClick={save} disabled={saving || (isNew && isEmptyAnnotation(draft))} className="ml-auto text-xs font-bold uppercase tracking-wider text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg disabled:opacity-50 transition-colors">
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Annotatable;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Annotation, AnnotationSource, HighlightColor, ANNOTATIONS_EVENT, getAnnotations, deleteAnnotation } from '../services/annotations';
+import { AnnotationEditor, HIGHLIGHT_STYLES } from './Annotatable';
+import ScriptureText from './ScriptureText';
+import PrayerList from './PrayerList';
+
+type Filter = 'ALL' | 'HIGHLIGHTS' | 'NOTES' | 'BOOKMARKS';
+
+const FILTERS: { id: Filter; label: string; matches: (a: Annotation) => boolean }[] = [
+  { id: 'ALL', label: 'All', matches: () => true },
+  { id: 'HIGHLIGHTS', label: 'Highlights', matches: (a) => !!a.color },
+  { id: 'NOTES', label: 'Notes', matches: (a) => !!a.note.trim() },
+  { id: 'BOOKMARKS', label: 'Bookmarks', matches: (a) => a.bookmarked },
+];
+
+const SOURCE_LABELS: Record<AnnotationSource, string> = {
+  BIBLE: 'Scripture Search',
+  BIO: 'Missionary Biography',
+  SERMON: 'Sermon',
+  VERSE: 'Verse',
+};
+
+const BORDER_STYLES: Record<HighlightColor, string> = {
+  yellow: 'border-yellow-300', green: 'border-emerald-300', blue: 'border-sky-300', pink: 'border-pink-300',
+};
+
+const AnnotationsView: React.FC = () => {
+  const [items, setItems] = useState<Annotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<Filter>('ALL');
+  const [collection, setCollection] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Annotation | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => getAnnotations().then(all => { setItems(all); setLoading(false); });
+    load();
+    window.addEventListener(ANNOTATIONS_EVENT, load);
+    return () => window.removeEventListener(ANNOTATIONS_EVENT, load);
+  }, []);
+
+  const collections = [...new Set<string>(items.flatMap(a => a.collections))].sort((a, b) => a.localeCompare(b));
+  const activeFilter = FILTERS.find(f => f.id === filter)!;
+  const term = search.trim().toLowerCase();
+  const shown = items.filter(a =>
+    activeFilter.matches(a) &&
+    (!collection || a.collections.includes(collection)) &&
+    (!term || [a.text, a.note, a.title, ...a.collections].some(field => field.toLowerCase().includes(term)))
+  );
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this annotation?")) return;
+    try {
+      await deleteAnnotation(id);
+    } catch (e) {
+      alert("Could not delete this annotation.");
+    }
+  };
+
+  const copy = (a: Annotation) => {
+    navigator.clipboard.writeText(a.note.trim() ? `"${a.text}"\n\n${a.note}` : `"${a.text}"`);
+    setCopiedId(a.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  return (
+    <div className="flex flex-col min-h-full w-full max-w-screen-md mx-auto p-3 md:p-6">
+      <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-white mb-4 md:mb-6 text-center">Highlights & Notes</h2>
+
+      <PrayerList />
+
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search passages, notes and collections..."
+        className="w-full p-3 mb-3 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm"
+      />
+
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+        {FILTERS.map(f => (
+          <button key={f.id} onClick={() => setFilter(f.id)} className={`shrink-0 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${filter === f.id ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 hover:text-indigo-600'}`}>
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {collections.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {collections.map(name => (
+            <button key={name} onClick={() => setCollection(collection === name ? null : name)} className={`text-xs px-2.5 py-1.5 rounded-lg border transition-colors ${collection === name ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-300'}`}>
+              {name} <span className="opacity-60">{items.filter(a => a.collections.includes(name)).length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!loading && shown.length === 0 && (
+        <div className="text-center py-16 text-slate-400">
+          <p className="font-bold mb-1">{items.length === 0 ? "Nothing saved yet" : "No matches"}</p>
+          {items.length === 0 && <p className="text-sm">Select any passage in an answer, biography or sermon to highlight it, add a note or bookmark it.</p>}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {shown.map(a => (
+          <div key={a.id} className="bg-white dark:bg-slate-900 p-4 md:p-5 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 truncate">
+                {SOURCE_LABELS[a.source]}{a.source !== 'VERSE' && ` · ${a.title}`} · {new Date(a.createdAt).toLocaleDateString()}
+              </p>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => copy(a)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-2 py-1 rounded-md transition-colors">
+                  {copiedId === a.id ? "Copied" : "Copy"}
+                </button>
+                <button onClick={() => setEditing(a)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-2 py-1 rounded-md transition-colors">Edit</button>
+                <button onClick={() => remove(a.id)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-2 py-1 rounded-md transition-colors">Delete</button>
+              </div>
+            </div>
+            {a.source === 'VERSE' && <p className="font-serif font-bold text-indigo-700 dark:text-indigo-300 mb-1"><ScriptureText text={a.title} /></p>}
+            <blockquote className={`border-l-4 ${a.color ? BORDER_STYLES[a.color] : 'border-indigo-200 dark:border-indigo-800'} pl-4 font-serif text-slate-800 dark:text-slate-200 leading-relaxed whitespace-pre-line line-clamp-6`}>
+              <span className={a.color ? HIGHLIGHT_STYLES[a.color] : ''}>{a.text}</span>
+            </blockquote>
+            {a.note.trim() && <p className="mt-3 text-sm text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-800 rounded-xl p-3 whitespace-pre-line"><ScriptureText text={a.note} /></p>}
+            {a.collections.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {a.collections.map(name => (
+                  <button key={name} onClick={() => setCollection(name)} className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 px-2 py-1 rounded-md">{name}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {editing && createPortal(<AnnotationEditor annotation={editing} isNew={false} onClose={() => setEditing(null)} />, document.body)}
+    </div>
+  );
+};
+
+export default AnnotationsView;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { getApiKey, hasSavedApiKey, saveApiKey, clearApiKey, validateApiKey } from '../services/gemini';
+
+const KEY_ERRORS: Record<string, string> = {
+  MISSING_KEY: "Paste a key first.",
+  INVALID_KEY: "This key is not valid. Check that it was copied completely.",
+  KEY_LEAKED: "This key was disabled because it was leaked online. Generate a new one.",
+  KEY_EXPIRED: "This key has expired. Generate a new one.",
+};
+
+// Only the last characters are ever shown
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+const ApiKeyPanel: React.FC = () => {
+  const [draft, setDraft] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [saved, setSaved] = useState(hasSavedApiKey);
+
+  const activeKey = getApiKey();
+  const status = saved ? `Using your key ${maskKey(activeKey)}` : activeKey ? "Using the app's built-in key" : "No key set. AI features will not work until one is added.";
+
+  const validateAndSave = async () => {
+    setChecking(true);
+    setMessage(null);
+    const result = await validateApiKey(draft);
+    setChecking(false);
+    if (result !== "OK") {
+      setMessage({ ok: false, text: KEY_ERRORS[result] || `The key could not be checked: ${result}` });
+      return;
+    }
+    saveApiKey(draft);
+    setSaved(true);
+    setDraft('');
+    setMessage({ ok: true, text: "Key verified and saved on this device." });
+  };
+
+  const remove = () => {
+    if (!confirm("Remove your saved API key from this device?")) return;
+    clearApiKey();
+    setSaved(false);
+    setMessage({ ok: true, text: "Key removed." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-600 dark:text-slate-300">{status}</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="password"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && draft.trim() && !checking && validateAndSave()}
+          placeholder="Paste a Gemini API key"
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-white font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button onClick={validateAndSave} disabled={!draft.trim() || checking} className="text-xs font-bold uppercase tracking-wider text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-3 rounded-xl disabled:opacity-50 transition-colors">
+          {checking ? "Checking..." : "Validate & Save"}
+        </button>
+      </div>
+      {message && <p className={`text-sm ${message.ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>{message.text}</p>}
+      <div className="flex items-center justify-between gap-3">
+        <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline">Get a key at aistudio.google.com</a>
+        {saved && <button onClick={remove} className="text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 px-3 py-2 rounded-lg transition-colors">Remove key</button>}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPanel;
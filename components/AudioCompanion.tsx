@@ -1,34 +1,83 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeAudioData, downsampleBuffer } from '../utils/audioUtils';
+import { createPortal } from 'react-dom';
+import { FunctionCall, GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { createPcmBlob, decodeAudioData } from '../utils/audioUtils';
+import { CaptureChunk, createCaptureNode, loadCaptureWorklet } from '../utils/captureWorklet';
 import { getApiKey } from '../services/gemini';
-import { saveToCache } from '../services/cache';
+import { saveConversation } from '../services/cache';
+import { saveRecording } from '../services/recordings';
+import { LIVE_TOOLS, LiveAction, runLiveTool } from '../services/liveTools';
+import { PREFERENCES_EVENT, PLAYBACK_SPEEDS, loadPreferences, savePreferences } from '../services/preferences';
+import { findPersona, personaInstruction } from '../utils/personas';
+import { createSessionRecorder, SessionRecorder, INPUT_RATE } from '../utils/sessionRecorder';
+import { ConversationTurn } from '../types';
+import ScriptureText from './ScriptureText';
+import RecordingsList from './RecordingsList';
+import LiveActionCard from './LiveActionCard';
+import CounselorSettings from './CounselorSettings';
 
 interface AudioCompanionProps { language: string; isActiveView?: boolean; }
 
-type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 type SpeakerState = 'listening' | 'processing' | 'speaking';
+// Hands-free streams whenever speech is detected; push-to-talk only while the button is held
+type TalkMode = 'handsfree' | 'push';
+
+// Chunks (100 ms each) kept while silent and sent ahead of speech, so its onset is not clipped
+const PRE_ROLL_CHUNKS = 3;
+
+// Reconnect backoff after a dropped socket: 1s, 2s, 4s... capped, with jitter
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Action cards on screen at once; older ones drop off
+const MAX_SHOWN_ACTIONS = 2;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 15000;
 
 const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView = true }) => {
   const [isActive, setIsActive] = useState(false);
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [speakerState, setSpeakerState] = useState<SpeakerState>('listening');
   const [errorMessage, setErrorMessage] = useState('');
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  // Opt-in recording of the whole session
+  const [recordSession, setRecordSession] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [recordingNotice, setRecordingNotice] = useState('');
+  const [talkMode, setTalkMode] = useState<TalkMode>('handsfree');
+  const [talking, setTalking] = useState(false);
+  const [actions, setActions] = useState<(LiveAction & { id: string })[]>([]);
   
-  // Settings
-  const [volume, setVolume] = useState(0.8);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
+  // Settings, kept in the preferences store
+  const [preferences, setPreferences] = useState(loadPreferences);
+  const { volume, playbackSpeed, voices: voiceSettings } = preferences;
+  const setVolume = (value: number) => savePreferences({ volume: value });
+  const setPlaybackSpeed = (value: number) => savePreferences({ playbackSpeed: value });
   
   // Audio Refs
   const inputContextRef = useRef<AudioContext | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const processorRef = useRef<AudioWorkletNode | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Push-to-talk: held now, and whether the release still has to be sent after the last chunk
+  const talkingRef = useRef(false);
+  const releasePendingRef = useRef(false);
+  // Reconnection: the socket in use, whether it is up, and how to resume after it drops
+  const generationRef = useRef(0);
+  const liveRef = useRef(false);
+  const resumeHandleRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const cancelReconnectRef = useRef<(() => void) | null>(null);
+  // Tool calls the server withdrew, usually because the user spoke over them
+  const cancelledCallsRef = useRef<Set<string>>(new Set());
+  // Bumped for each session that does not resume the previous one; tool call ids belong to one
+  const lineageRef = useRef(0);
 
   // Updates for real-time control
   useEffect(() => {
@@ -44,7 +93,61 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
     });
   }, [playbackSpeed]);
 
-  const transcriptRef = useRef<{ user: string; model: string }>({ user: '', model: '' });
+  useEffect(() => {
+    const load = () => setPreferences(loadPreferences());
+    window.addEventListener(PREFERENCES_EVENT, load);
+    return () => window.removeEventListener(PREFERENCES_EVENT, load);
+  }, []);
+
+  // The session's transcript; turns mirrors it for rendering
+  const turnsRef = useRef<ConversationTurn[]>([]);
+  const conversationRef = useRef<{ id: string; startedAt: number; language: string } | null>(null);
+  const captionsRef = useRef<HTMLDivElement>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Output clock time when recording began; replies are placed relative to it
+  const recordingStartRef = useRef(0);
+
+  // Transcription arrives in fragments; consecutive fragments from one speaker form a turn
+  const appendCaption = (role: ConversationTurn['role'], text: string) => {
+    const current = turnsRef.current;
+    const last = current[current.length - 1];
+    const next = last?.role === role
+      ? [...current.slice(0, -1), { ...last, text: last.text + text }]
+      : [...current, { role, text, at: Date.now() }];
+    turnsRef.current = next;
+    setTurns(next);
+  };
+
+  const persistConversation = () => {
+    const conversation = conversationRef.current;
+    if (!conversation) return;
+    saveConversation(conversation.id, { turns: turnsRef.current, startedAt: conversation.startedAt, endedAt: Date.now() }, conversation.language);
+  };
+
+  useEffect(() => {
+    if (captionsRef.current) captionsRef.current.scrollTop = captionsRef.current.scrollHeight;
+  }, [turns, showCaptions]);
+
+  // Mixes and stores the recording; the session itself may carry on
+  const finishRecording = () => {
+    const recorder = recorderRef.current;
+    const conversation = conversationRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (!recorder || !conversation) return;
+    const mixed = recorder.mixdown();
+    if (!mixed) return;
+    saveRecording({
+      id: conversation.id,
+      createdAt: conversation.startedAt,
+      duration: mixed.duration,
+      language: conversation.language,
+      turns: turnsRef.current.filter(t => t.text.trim()),
+      audio: new Blob([mixed.wav], { type: 'audio/wav' }),
+    })
+      .then(() => setRecordingNotice(recorder.isFull() ? "Recording limit reached. The recording so far was saved." : "Recording saved."))
+      .catch((e) => { console.error("Recording save failed", e); setErrorMessage("Could not save the recording."); });
+  };
 
   // Visualizer Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -63,6 +166,12 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
 
       setStatus('connecting');
       setErrorMessage('');
+      const startedAt = Date.now();
+      conversationRef.current = { id: `live-${startedAt}`, startedAt, language };
+      turnsRef.current = [];
+      setTurns([]);
+      setActions([]);
+      cancelledCallsRef.current.clear();
 
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         throw new Error("Microphone not supported.");
@@ -71,8 +180,10 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
       const ai = new GoogleGenAI({ apiKey });
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       
-      inputContextRef.current = new AudioContextClass({ sampleRate: 16000 });
+      // The device's own rate; the capture worklet resamples to INPUT_RATE
+      inputContextRef.current = new AudioContextClass();
       if (inputContextRef.current.state === 'suspended') await inputContextRef.current.resume();
+      await loadCaptureWorklet(inputContextRef.current);
 
       outputContextRef.current = new AudioContextClass({ sampleRate: 24000 });
       if (outputContextRef.current.state === 'suspended') await outputContextRef.current.resume();
@@ -90,78 +201,9 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
       });
       streamRef.current = stream;
 
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          systemInstruction: `You are FaithWalk, a professional spiritual counselor.
-          User Language: ${language}.
-          CORE BEHAVIORS:
-          1. Adaptive Depth: Provide LONG, DETAILED responses with Biblical scripture and Jewish history when asked.
-          2. Natural: Speak as if on a warm phone call.
-          3. Tone: Empathic, wise, counselor-like.`,
-        },
-      };
-
-      const sessionPromise = ai.live.connect({
-        ...config,
-        callbacks: {
-          onopen: () => {
-            setStatus('connected');
-            setIsActive(true);
-            setSpeakerState('listening');
-            setupAudioInput(stream);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio && outputContextRef.current) {
-                setSpeakerState('speaking');
-                const ctx = outputContextRef.current;
-                const currentTime = ctx.currentTime;
-                
-                if (nextStartTimeRef.current < currentTime) nextStartTimeRef.current = currentTime;
-                
-                try {
-                  const audioBuffer = await decodeAudioData(base64Audio, ctx);
-                  const source = ctx.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.playbackRate.value = playbackSpeed;
-                  source.connect(outputNodeRef.current!);
-                  source.addEventListener('ended', () => { 
-                      if (ctx.currentTime >= nextStartTimeRef.current - 0.2) setSpeakerState('listening');
-                      sourcesRef.current.delete(source);
-                  });
-                  source.start(nextStartTimeRef.current);
-                  nextStartTimeRef.current += (audioBuffer.duration / playbackSpeed);
-                  sourcesRef.current.add(source);
-                } catch (err) { console.error("Audio Error", err); }
-             }
-
-             if (message.serverContent?.inputTranscription?.text) transcriptRef.current.user += message.serverContent.inputTranscription.text;
-             if (message.serverContent?.outputTranscription?.text) transcriptRef.current.model += message.serverContent.outputTranscription.text;
-
-             if (message.serverContent?.turnComplete) {
-                if (transcriptRef.current.user.trim() || transcriptRef.current.model.trim()) {
-                    saveToCache('LIVE', transcriptRef.current.user, transcriptRef.current.model, language);
-                }
-                transcriptRef.current = { user: '', model: '' };
-             }
-
-             if (message.serverContent?.interrupted) {
-                sourcesRef.current.forEach(src => { try { src.stop(); } catch(e){} });
-                sourcesRef.current.clear();
-                if (outputContextRef.current) nextStartTimeRef.current = outputContextRef.current.currentTime;
-                setSpeakerState('listening');
-             }
-          },
-          onclose: () => { setStatus('disconnected'); setIsActive(false); },
-          onerror: (err) => { setStatus('error'); setErrorMessage("Connection error."); stopSession(); }
-        }
-      });
-      
-      sessionPromiseRef.current = sessionPromise;
-      await sessionPromise;
+      resumeHandleRef.current = null;
+      reconnectAttemptsRef.current = 0;
+      await connect(ai, stream, false);
     } catch (e: any) {
       setStatus('error');
       setErrorMessage(e.message || "Failed to start.");
@@ -169,6 +211,200 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
     }
   };
 
+  // --- Connection ---
+  // One websocket of the call. When it drops, the call is not ended: the microphone and any
+  // reply still playing carry on while a new socket is opened with backoff. The new session
+  // resumes the old one from its latest resumption handle, or, when there is none, is given
+  // the transcript so far so the counselor keeps the thread of the conversation.
+  const connect = async (ai: GoogleGenAI, stream: MediaStream, resuming: boolean) => {
+    const generation = ++generationRef.current;
+    const current = () => generation === generationRef.current;
+    const handle = resumeHandleRef.current;
+    if (!handle) lineageRef.current++;
+    let established = false;
+    const persona = findPersona(voiceSettings.persona);
+
+    const config = {
+      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceSettings.liveVoice || persona.voice } } },
+        // Captions for both speakers
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Push-to-talk marks the turns itself instead of the server listening for them
+        ...(talkMode === 'push' && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }),
+        // Asks the server for resumption handles, and resumes from one after a drop
+        sessionResumption: handle ? { handle } : {},
+        tools: [{ functionDeclarations: LIVE_TOOLS }],
+        systemInstruction: `${personaInstruction(persona, language)}
+Tools: Call show_passage for any passage you read or discuss, so the user can follow along. Save prayer requests and bookmark verses only when the user wants them kept. Offer open_biography when a missionary's story would help; it puts an "Open in Missions" button on screen for the user, who stays in the call.`,
+      },
+    };
+
+    const sessionPromise = ai.live.connect({
+      ...config,
+      callbacks: {
+        onmessage: async (message: LiveServerMessage) => {
+           if (!current()) return;
+           // An open socket is not yet a session: the server may still refuse the setup, so
+           // the call starts on its first message
+           if (!established) {
+             established = true;
+             liveRef.current = true;
+             reconnectAttemptsRef.current = 0;
+             setStatus('connected');
+             if (!resuming) beginCall(stream);
+           }
+
+           const update = message.sessionResumptionUpdate;
+           if (update?.resumable && update.newHandle) resumeHandleRef.current = update.newHandle;
+           // The server is about to close this socket; move to a new one while the handle is fresh
+           if (message.goAway) { connectionLost(ai, stream, true); return; }
+
+           if (message.toolCall?.functionCalls?.length) runToolCalls(message.toolCall.functionCalls);
+           message.toolCallCancellation?.ids?.forEach(id => cancelledCallsRef.current.add(id));
+
+           const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+           if (base64Audio && outputContextRef.current) {
+              setSpeakerState('speaking');
+              const ctx = outputContextRef.current;
+              const currentTime = ctx.currentTime;
+              
+              if (nextStartTimeRef.current < currentTime) nextStartTimeRef.current = currentTime;
+              
+              try {
+                const audioBuffer = await decodeAudioData(base64Audio, ctx);
+                const source = ctx.createBufferSource();
+                source.buffer = audioBuffer;
+                source.playbackRate.value = playbackSpeed;
+                source.connect(outputNodeRef.current!);
+                source.addEventListener('ended', () => { 
+                    if (ctx.currentTime >= nextStartTimeRef.current - 0.2) setSpeakerState('listening');
+                    sourcesRef.current.delete(source);
+                });
+                source.start(nextStartTimeRef.current);
+                recorderRef.current?.addOutput(audioBuffer.getChannelData(0), nextStartTimeRef.current - recordingStartRef.current, playbackSpeed);
+                nextStartTimeRef.current += (audioBuffer.duration / playbackSpeed);
+                sourcesRef.current.add(source);
+              } catch (err) { console.error("Audio Error", err); }
+           }
+
+           if (message.serverContent?.inputTranscription?.text) appendCaption('user', message.serverContent.inputTranscription.text);
+           if (message.serverContent?.outputTranscription?.text) appendCaption('model', message.serverContent.outputTranscription.text);
+
+           if (message.serverContent?.turnComplete) persistConversation();
+
+           if (message.serverContent?.interrupted) {
+              sourcesRef.current.forEach(src => { try { src.stop(); } catch(e){} });
+              sourcesRef.current.clear();
+              if (outputContextRef.current) {
+                nextStartTimeRef.current = outputContextRef.current.currentTime;
+                recorderRef.current?.interrupt(outputContextRef.current.currentTime - recordingStartRef.current);
+              }
+              setSpeakerState('listening');
+           }
+        },
+        onclose: (e: CloseEvent) => {
+          if (!current()) return;
+          if (!established) {
+            // A handle the server would not resume from; fall back to the transcript
+            if (handle) {
+              resumeHandleRef.current = null;
+              connectionLost(ai, stream);
+              return;
+            }
+            // Closed before the session began: the setup was refused (a bad key, model or
+            // config, 1007/1008), which no retry will fix
+            if (!resuming || e.code === 1007 || e.code === 1008) {
+              setStatus('error');
+              setErrorMessage(e.reason || "The server refused the connection.");
+              stopSession();
+              return;
+            }
+          }
+          connectionLost(ai, stream);
+        },
+        onerror: () => {
+          if (!current()) return;
+          if (!resuming && !established) { setStatus('error'); setErrorMessage("Connection error."); stopSession(); return; }
+          connectionLost(ai, stream);
+        }
+      }
+    });
+
+    sessionPromiseRef.current = sessionPromise;
+    try {
+      const session = await sessionPromise;
+      if (resuming && !handle && current()) {
+        const history = turnsRef.current.filter(t => t.text.trim()).map(t => ({ role: t.role, parts: [{ text: t.text.trim() }] }));
+        if (history.length) session.sendClientContent({ turns: history, turnComplete: false });
+      }
+    } catch (e) {
+      if (!resuming) throw e;
+      if (current()) connectionLost(ai, stream);
+    }
+  };
+
+  // The first socket of a call is accepted: start listening, and recording if asked
+  const beginCall = (stream: MediaStream) => {
+    setIsActive(true);
+    setSpeakerState('listening');
+    if (recordSession && outputContextRef.current) {
+      recorderRef.current = createSessionRecorder();
+      recordingStartRef.current = outputContextRef.current.currentTime;
+      setIsRecording(true);
+      setRecordingNotice('');
+    }
+    setupAudioInput(stream);
+  };
+
+  // Tool calls are carried out on the device and answered together. A call withdrawn
+  // before it saves anything does nothing; one withdrawn later still gets its card, since
+  // its prayer or bookmark was kept, but no response. The answer goes to whichever session
+  // is current by then: a resumed one knows the call ids, but one started afresh from the
+  // transcript does not, and gets no answer.
+  const runToolCalls = async (calls: FunctionCall[]) => {
+    const lineage = lineageRef.current;
+    const withdrawn = (call: FunctionCall) => !!call.id && cancelledCallsRef.current.has(call.id);
+    const results = await Promise.all(calls.map(async (call) => ({ call, result: await runLiveTool(call.name || '', call.args || {}, language, () => withdrawn(call)) })));
+    results.forEach(({ call, result }) => {
+      if (!result.action) return;
+      const action = { ...result.action, id: `${call.id || call.name}-${Date.now()}` };
+      setActions(prev => [...prev, action].slice(-MAX_SHOWN_ACTIONS));
+    });
+    const kept = results.filter(({ call }) => !withdrawn(call));
+    if (kept.length === 0 || lineage !== lineageRef.current) return;
+    const functionResponses = kept.map(({ call, result }) => ({ id: call.id, name: call.name, response: result.response }));
+    sessionPromiseRef.current?.then(s => s.sendToolResponse({ functionResponses })).catch(() => {});
+  };
+
+  const connectionLost = (ai: GoogleGenAI, stream: MediaStream, immediate = false) => {
+    // Late events from the old socket are ignored from here on
+    generationRef.current++;
+    liveRef.current = false;
+    sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
+    persistConversation();
+    setStatus('reconnecting');
+
+    const retry = () => { cancelReconnectRef.current = null; connect(ai, stream, true); };
+    if (!navigator.onLine) {
+      // Nothing to retry against until the network is back; this does not use up attempts
+      window.addEventListener('online', retry, { once: true });
+      cancelReconnectRef.current = () => window.removeEventListener('online', retry);
+      return;
+    }
+    const attempt = reconnectAttemptsRef.current++;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      setErrorMessage("Connection lost. Please start a new consultation.");
+      stopSession();
+      return;
+    }
+    const delay = immediate ? 0 : Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY) * (0.8 + Math.random() * 0.4);
+    const timer = window.setTimeout(retry, delay);
+    cancelReconnectRef.current = () => clearTimeout(timer);
+  };
+
   const setupAudioInput = (stream: MediaStream) => {
     if (!inputContextRef.current) return;
     const ctx = inputContextRef.current;
@@ -181,25 +417,75 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
     inputAnalyserRef.current.fftSize = 256;
     gainNode.connect(inputAnalyserRef.current);
 
-    const processor = ctx.createScriptProcessor(4096, 1, 1);
-    processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        let pcmData = inputData;
-        if (ctx.sampleRate !== 16000) pcmData = downsampleBuffer(inputData, ctx.sampleRate, 16000);
-        const pcmBlob = createPcmBlob(pcmData);
-        sessionPromiseRef.current?.then((session) => {
-            session.sendRealtimeInput({ media: pcmBlob });
-        }).catch(() => {});
+    const pushToTalk = talkMode === 'push';
+    const preRoll: Int16Array[] = [];
+    let streaming = false;
+    const onChunk = ({ pcm, voiced }: CaptureChunk) => {
+        const recorder = recorderRef.current;
+        if (recorder) {
+          recorder.addInput(pcm);
+          if (recorder.isFull()) finishRecording();
+        }
+
+        const releasing = releasePendingRef.current;
+        if (pushToTalk ? talkingRef.current || releasing : voiced) {
+          preRoll.splice(0).forEach(chunk => sendInput({ audio: createPcmBlob(chunk, INPUT_RATE) }));
+          sendInput({ audio: createPcmBlob(pcm, INPUT_RATE) });
+          streaming = true;
+          if (releasing) {
+            releasePendingRef.current = false;
+            sendInput({ activityEnd: {} });
+          }
+          return;
+        }
+        // Silence: tell the server the stream paused so it closes the turn without waiting
+        if (streaming && !pushToTalk) sendInput({ audioStreamEnd: true });
+        streaming = false;
+        preRoll.push(pcm);
+        if (preRoll.length > PRE_ROLL_CHUNKS) preRoll.shift();
     };
 
+    const processor = createCaptureNode(ctx, INPUT_RATE, onChunk);
     gainNode.connect(processor);
+    // Its output is silent; connecting it keeps the worklet running on every browser
     processor.connect(ctx.destination);
     inputSourceRef.current = source;
     processorRef.current = processor;
   };
 
+  const sendInput = (input: Parameters<Session['sendRealtimeInput']>[0]) => {
+    // Speech while reconnecting is dropped rather than replayed late
+    if (!liveRef.current) return;
+    sessionPromiseRef.current?.then((session) => session.sendRealtimeInput(input)).catch(() => {});
+  };
+
+  const startTalking = () => {
+    if (talkingRef.current) return;
+    talkingRef.current = true;
+    releasePendingRef.current = false;
+    setTalking(true);
+    sendInput({ activityStart: {} });
+  };
+
+  const stopTalking = () => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    releasePendingRef.current = true;
+    setTalking(false);
+  };
+
   const stopSession = () => {
-    if (processorRef.current) processorRef.current.disconnect();
+    generationRef.current++;
+    liveRef.current = false;
+    cancelReconnectRef.current?.();
+    cancelReconnectRef.current = null;
+    finishRecording();
+    talkingRef.current = false;
+    releasePendingRef.current = false;
+    setTalking(false);
+    persistConversation();
+    conversationRef.current = null;
+    if (processorRef.current) { processorRef.current.port.onmessage = null; processorRef.current.disconnect(); }
     if (inputSourceRef.current) inputSourceRef.current.disconnect();
     if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
     if (inputContextRef.current) inputContextRef.current.close().catch(() => {});
@@ -211,6 +497,25 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
     setStatus('disconnected');
   };
 
+  // Space bar holds to talk, like the button
+  useEffect(() => {
+    if (!isActive || !isActiveView || talkMode !== 'push') return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, button');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => { window.removeEventListener('keydown', onKeyDown); window.removeEventListener('keyup', onKeyUp); };
+  }, [isActive, isActiveView, talkMode]);
+
   useEffect(() => {
     const draw = () => {
         if (!canvasRef.current || !isActive || !isActiveView) return;
@@ -272,11 +577,40 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
 
         <div className="relative z-10 p-6 flex flex-col md:flex-row justify-between items-center bg-gradient-to-b from-black/60 to-transparent gap-4">
            <div className="flex items-center gap-3">
-               <div className={`w-3 h-3 rounded-full ${status === 'connected' ? 'bg-green-400 shadow-[0_0_8px_#4ade80]' : 'bg-slate-700'}`}></div>
+               <div className={`w-3 h-3 rounded-full ${status === 'connected' ? 'bg-green-400 shadow-[0_0_8px_#4ade80]' : status === 'reconnecting' ? 'bg-amber-400 animate-pulse' : 'bg-slate-700'}`}></div>
                <span className="text-sm font-bold tracking-widest uppercase text-slate-400">FaithWalk Voice Counselor</span>
+               {turns.length > 0 && (
+                 <button onClick={() => setShowCaptions(!showCaptions)} title={showCaptions ? "Hide captions" : "Show captions"} aria-pressed={showCaptions} className={`text-[10px] font-black px-1.5 py-0.5 rounded border transition-colors ${showCaptions ? 'border-white/60 text-white' : 'border-white/20 text-slate-500 hover:text-slate-300'}`}>
+                   CC
+                 </button>
+               )}
+               {isRecording && (
+                 <span className="flex items-center gap-1.5 text-[10px] font-black tracking-wider text-red-400">
+                   <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>REC
+                 </span>
+               )}
            </div>
            
-           {status === 'connected' && (
+           {!isActive && (
+             <div className="flex flex-wrap items-center justify-center gap-3">
+               <div role="radiogroup" aria-label="Microphone mode" className="flex bg-white/5 rounded-full p-0.5 border border-white/10">
+                 {([['handsfree', 'Hands-free'], ['push', 'Push to talk']] as [TalkMode, string][]).map(([mode, label]) => (
+                   <button key={mode} role="radio" aria-checked={talkMode === mode} onClick={() => setTalkMode(mode)} disabled={status === 'connecting'} className={`text-xs font-bold px-3 py-1 rounded-full transition-colors ${talkMode === mode ? 'bg-white text-slate-950' : 'text-slate-400 hover:text-slate-200'}`}>
+                     {label}
+                   </button>
+                 ))}
+               </div>
+               <label className="flex items-center gap-2 text-xs font-bold text-slate-400 cursor-pointer">
+                 <input type="checkbox" checked={recordSession} onChange={(e) => setRecordSession(e.target.checked)} disabled={status === 'connecting'} className="w-4 h-4 accent-red-500" />
+                 Record session
+               </label>
+               <button onClick={() => setShowRecordings(true)} className="text-xs font-bold uppercase tracking-wider text-slate-300 bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-full border border-white/10 transition-colors">
+                 Recordings
+               </button>
+             </div>
+           )}
+
+           {isActive && (
              <div className="flex items-center gap-6 bg-white/5 backdrop-blur-md px-4 py-2 rounded-full border border-white/10">
                <div className="flex items-center gap-2">
                  <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15.536a5 5 0 001.414 1.414m2.828 2.828a9 9 0 002.828 2.828" /></svg>
@@ -285,7 +619,7 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
                <div className="flex items-center gap-2">
                  <span className="text-[10px] font-bold text-slate-400 uppercase">Speed</span>
                  <select value={playbackSpeed} onChange={(e) => setPlaybackSpeed(parseFloat(e.target.value))} className="bg-transparent text-xs font-bold text-white focus:outline-none">
-                   <option value="0.8">0.8x</option><option value="1.0">1.0x</option><option value="1.2">1.2x</option><option value="1.5">1.5x</option>
+                   {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed.toFixed(1)}x</option>)}
                  </select>
                </div>
              </div>
@@ -304,17 +638,46 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
                 )}
             </div>
             <div className="h-10">
-              {speakerState === 'speaking' && <p className="text-amber-400 font-serif italic text-lg animate-pulse">Counselor is speaking...</p>}
-              {speakerState === 'listening' && isActive && <p className="text-indigo-400 font-serif italic text-lg opacity-60">Listening carefully...</p>}
+              {status === 'reconnecting' && <p className="text-amber-400 font-serif italic text-lg animate-pulse">Reconnecting...</p>}
+              {status !== 'reconnecting' && speakerState === 'speaking' && <p className="text-amber-400 font-serif italic text-lg animate-pulse">Counselor is speaking...</p>}
+              {status !== 'reconnecting' && speakerState === 'listening' && isActive && (talkMode === 'push' && !talking
+                ? <p className="text-slate-400 font-serif italic text-lg opacity-60">Hold the button or Space to talk</p>
+                : <p className="text-indigo-400 font-serif italic text-lg opacity-60">Listening carefully...</p>)}
             </div>
         </div>
 
+        {actions.length > 0 && (
+            <div className="relative z-10 mx-4 md:mx-auto md:w-full md:max-w-2xl mb-3 space-y-2">
+                {actions.map(action => (
+                    <LiveActionCard key={action.id} action={action} language={language} onDismiss={() => setActions(prev => prev.filter(a => a.id !== action.id))} />
+                ))}
+            </div>
+        )}
+
+        {!isActive && <CounselorSettings settings={voiceSettings} disabled={status === 'connecting'} />}
+
+        {showCaptions && turns.length > 0 && (
+            <div ref={captionsRef} aria-live="polite" className="relative z-10 mx-4 md:mx-auto md:w-full md:max-w-2xl max-h-40 md:max-h-48 overflow-y-auto space-y-2 px-4 py-3 rounded-2xl bg-black/40 backdrop-blur-md border border-white/10 text-sm leading-relaxed">
+                {turns.map((turn, i) => (
+                    <p key={i} className={turn.role === 'user' ? 'text-indigo-200' : 'text-amber-50 font-serif'}>
+                        <span className={`text-[10px] font-bold uppercase tracking-wider mr-2 ${turn.role === 'user' ? 'text-indigo-400' : 'text-amber-400'}`}>{turn.role === 'user' ? 'You' : 'Counselor'}</span>
+                        <ScriptureText text={turn.text} language={language} />
+                    </p>
+                ))}
+            </div>
+        )}
+
         <div className="p-10 flex justify-center relative z-10 bg-gradient-to-t from-black/80 to-transparent">
              {errorMessage && (
                 <div className="absolute top-0 left-0 right-0 text-center">
                     <span className="bg-red-500/90 text-white text-xs px-6 py-2 rounded-full shadow-2xl border border-red-400/50">{errorMessage}</span>
                 </div>
             )}
+            {!errorMessage && recordingNotice && (
+                <div className="absolute top-0 left-0 right-0 text-center">
+                    <button onClick={() => setShowRecordings(true)} className="bg-white/10 text-slate-200 text-xs px-6 py-2 rounded-full border border-white/10 hover:bg-white/20 transition-colors">{recordingNotice}</button>
+                </div>
+            )}
             
             {!isActive ? (
                 <button
@@ -339,6 +702,20 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
                     )}
                 </button>
             ) : (
+              <div className="flex flex-wrap items-center justify-center gap-4">
+                {talkMode === 'push' && (
+                  <button
+                    onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                    onPointerUp={stopTalking}
+                    onPointerCancel={stopTalking}
+                    onContextMenu={(e) => e.preventDefault()}
+                    aria-pressed={talking}
+                    className={`select-none touch-none px-10 py-5 rounded-full font-black text-xl transition-all duration-200 flex items-center gap-3 ${talking ? 'bg-indigo-500 text-white scale-105 shadow-[0_0_40px_rgba(99,102,241,0.6)]' : 'bg-white/10 text-white border border-white/20 hover:bg-white/20'}`}
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+                    {talking ? "Release to send" : "Hold to talk"}
+                  </button>
+                )}
                 <button
                     onClick={stopSession}
                     className="group relative bg-red-600 text-white px-10 py-5 rounded-full font-black text-xl shadow-[0_10px_50px_rgba(220,38,38,0.2)] hover:bg-red-700 hover:scale-105 active:scale-95 transition-all duration-300 flex items-center gap-4"
@@ -346,8 +723,11 @@ const AudioCompanion: React.FC<AudioCompanionProps> = ({ language, isActiveView
                     <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
                     End Session
                 </button>
+              </div>
             )}
         </div>
+
+        {showRecordings && createPortal(<RecordingsList onClose={() => setShowRecordings(false)} />, document.body)}
     </div>
   );
 };
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SavedNarration, AUDIO_EVENT, getNarrations, deleteNarration, narrationToWav, getStorageEstimate } from '../services/audioLibrary';
+import { downloadFile, slugify, formatDuration, formatSize } from '../utils/download';
+
+const TOOL_LABELS: Record<string, string> = { BIBLE: 'Scripture', BIO: 'Biography', SERMON: 'Sermon' };
+
+// Narrations kept on the device: play offline, download or share as WAV, delete
+const AudioLibrary: React.FC = () => {
+  const [items, setItems] = useState<SavedNarration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  useEffect(() => {
+    const load = () => {
+      getNarrations().then(list => { setItems(list); setLoading(false); });
+      getStorageEstimate().then(setStorage);
+    };
+    load();
+    window.addEventListener(AUDIO_EVENT, load);
+    return () => window.removeEventListener(AUDIO_EVENT, load);
+  }, []);
+
+  // One player at a time; its sections are joined into one file while it is open. The
+  // list reloads on every library update, so the item is read through a ref rather than
+  // rebuilding the file each time.
+  useEffect(() => {
+    const open = itemsRef.current.find(n => n.id === openId);
+    if (!open) return;
+    let url: string | null = null;
+    let cancelled = false;
+    setError(null);
+    narrationToWav(open).then(wav => {
+      if (cancelled) return;
+      url = URL.createObjectURL(wav);
+      setAudioUrl(url);
+    }).catch(e => {
+      console.warn("Could not read saved audio", e);
+      if (!cancelled) setError("Could not play this audio.");
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [openId]);
+
+  const fileName = (n: SavedNarration) => `${slugify(n.title)}.wav`;
+
+  const download = async (n: SavedNarration) => {
+    setError(null);
+    try {
+      downloadFile(fileName(n), await narrationToWav(n), 'audio/wav');
+    } catch (e) {
+      console.warn("Could not export saved audio", e);
+      setError("Could not prepare the audio file.");
+    }
+  };
+
+  // Messaging apps take the file through the system share sheet where there is one
+  const share = async (n: SavedNarration) => {
+    setError(null);
+    let file: File;
+    try {
+      file = new File([await narrationToWav(n)], fileName(n), { type: 'audio/wav' });
+    } catch (e) {
+      console.warn("Could not export saved audio", e);
+      setError("Could not prepare the audio file.");
+      return;
+    }
+    if (!navigator.canShare?.({ files: [file] })) {
+      downloadFile(file.name, file, 'audio/wav');
+      return;
+    }
+    try {
+      await navigator.share({ files: [file], title: n.title });
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') setError("Could not share the audio.");
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this audio?")) return;
+    try {
+      await deleteNarration(id);
+      if (openId === id) setOpenId(null);
+    } catch (e) {
+      alert("Could not delete the audio.");
+    }
+  };
+
+  const totalSize = items.reduce((sum, n) => sum + n.size, 0);
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800 shadow-sm shrink-0 max-h-[50vh] overflow-y-auto animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-baseline justify-between gap-3 mb-3">
+        <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Audio · {items.length} · {formatSize(totalSize)}</p>
+        {storage && storage.quota > 0 && (
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Device: {formatSize(storage.usage)} of {formatSize(storage.quota)}</p>
+        )}
+      </div>
+
+      {!loading && items.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No saved audio yet. Use "Save offline" on a narration to keep it here.</p>
+      )}
+
+      <div className="space-y-2">
+        {items.map(n => (
+          <div key={n.id} className="p-3 rounded-lg border border-slate-100 dark:border-slate-800">
+            <button onClick={() => setOpenId(openId === n.id ? null : n.id)} className="w-full text-left">
+              <p className="font-serif font-bold text-slate-800 dark:text-slate-200 line-clamp-2">{n.title}</p>
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mt-1">
+                {TOOL_LABELS[n.tool] || n.tool} · {new Date(n.createdAt).toLocaleDateString()} · {formatDuration(n.duration)} · {formatSize(n.size)} · {n.voice}
+              </p>
+            </button>
+
+            {openId === n.id && (
+              <div className="mt-3 space-y-3">
+                {audioUrl && <audio src={audioUrl} controls autoPlay className="w-full" />}
+                {error && <p className="text-xs text-red-500">{error}</p>}
+                <div className="flex gap-2">
+                  <button onClick={() => download(n)} className="flex-1 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 px-3 py-2 rounded-lg transition-colors">
+                    Download WAV
+                  </button>
+                  {typeof navigator.share === 'function' && (
+                    <button onClick={() => share(n)} className="flex-1 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 px-3 py-2 rounded-lg transition-colors">
+                      Share
+                    </button>
+                  )}
+                  <button onClick={() => remove(n.id)} className="text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 px-3 py-2 rounded-lg transition-colors">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AudioLibrary;
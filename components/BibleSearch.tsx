@@ -1,39 +1,209 @@
-import React, { useState, useRef } from 'react';
-import { searchBible, speakText, cleanMarkdown, triggerSmartAd } from '../services/gemini';
+import React, { useState, useRef, useEffect } from 'react';
+import { streamBible, cleanMarkdown, triggerSmartAd, parseBibleAnswer } from '../services/gemini';
+import { checkCache, buildCacheKey } from '../services/cache';
+import { ensureBible, isBibleLoaded, lookupReference, searchVerses, versesToPassage, verseReference, TRANSLATION } from '../services/bible';
+import { parseReferenceList, formatReferenceList } from '../utils/scriptureRef';
+import { verifyBibleAnswer, CitationReport } from '../services/citations';
+import { OPEN_VERSE_EVENT } from '../services/notifications';
+import { BibleAnswer, BibleResult } from '../types';
 import LoadingScreen from './LoadingScreen';
+import ScriptureText from './ScriptureText';
+import Annotatable from './Annotatable';
+import NarrationPlayer from './NarrationPlayer';
+import { NarrationChunk, isReading } from '../utils/narration';
+import CitationBadge, { CitationStatusLabel } from './CitationBadge';
 
-interface BibleSearchProps { language: string; }
+interface BibleSearchProps { language: string; isOffline: boolean; }
 
-const BibleSearch: React.FC<BibleSearchProps> = ({ language }) => {
+const BibleSearch: React.FC<BibleSearchProps> = ({ language, isOffline }) => {
   const [query, setQuery] = useState('');
-  const [result, setResult] = useState('');
+  const [result, setResult] = useState<BibleAnswer | null>(null);
+  const [copiedRef, setCopiedRef] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const [stopped, setStopped] = useState(false);
+  // 'local' results come from the bundled Bible rather than the model
+  const [source, setSource] = useState<'ai' | 'local'>('ai');
+  const abortRef = useRef<AbortController | null>(null);
+  const lastQueryRef = useRef('');
+  // The language the answer on screen was asked in, which is part of its History key
+  const lastLanguageRef = useRef(language);
   const [listening, setListening] = useState(false);
+  // Citation check of the finished model answer against the offline Bible
+  const [citations, setCitations] = useState<CitationReport | null>(null);
+  const [checking, setChecking] = useState(false);
   
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [narrating, setNarrating] = useState(false);
+  const [reading, setReading] = useState<NarrationChunk | null>(null);
+
+  const notice = (summary: string): BibleAnswer => ({ summary, passages: [] });
+
+  // Download the offline Bible in the background while there is a connection
+  useEffect(() => {
+    if (isOffline || isBibleLoaded()) return;
+    const timer = setTimeout(() => ensureBible().catch(e => console.warn("Offline Bible not loaded", e)), 3000);
+    return () => clearTimeout(timer);
+  }, [isOffline]);
+
+  useEffect(() => {
+    setCitations(null);
+    if (!result || streaming || source !== 'ai' || result.passages.length === 0) return;
+    let cancelled = false;
+    setChecking(true);
+    verifyBibleAnswer(result, language)
+      .then(report => { if (!cancelled) setCitations(report); })
+      .catch(e => console.warn("Citation check failed", e))
+      .finally(() => { if (!cancelled) setChecking(false); });
+    return () => { cancelled = true; setChecking(false); };
+  }, [result, streaming, source, language]);
+
+  // Plain references are answered from the bundled Bible, online or not. Null when the
+  // query is not a reference or it could not be resolved locally. Online, a search made
+  // before the Bible has downloaded goes to the model rather than waiting on the
+  // download, which carries on in the background.
+  const localReference = async (q: string): Promise<BibleAnswer | null> => {
+    const refs = parseReferenceList(q, language);
+    if (refs.length === 0) return null;
+    if (!isOffline && !isBibleLoaded()) {
+      ensureBible().catch(e => console.warn("Offline Bible not loaded", e));
+      return null;
+    }
+    try {
+      const passages = [];
+      for (const ref of refs) {
+        const verses = await lookupReference(ref);
+        if (verses.length === 0) return null;
+        passages.push(versesToPassage(ref, verses));
+      }
+      return { summary: '', passages };
+    } catch (e) {
+      console.warn("Local lookup failed", e);
+      return null;
+    }
+  };
+
+  // Offline: a saved answer for this exact question, else a keyword search of the local Bible
+  const offlineAnswer = async (q: string): Promise<{ answer: BibleAnswer; fromDevice: boolean }> => {
+    const cached = await checkCache('BIBLE', q, language);
+    if (cached) return { answer: parseBibleAnswer(cached), fromDevice: false };
+    if (!isBibleLoaded()) {
+      return { answer: notice("You're offline and the offline Bible hasn't been downloaded yet. Connect once to download it."), fromDevice: false };
+    }
+    const { verses, total } = await searchVerses(q);
+    if (total === 0) return { answer: notice(`Offline: no verses in the ${TRANSLATION.name} contain "${q}".`), fromDevice: true };
+    const shown = total > verses.length ? ` Showing the first ${verses.length}.` : '';
+    return {
+      answer: {
+        summary: `Offline: ${total} ${total === 1 ? 'verse' : 'verses'} in the ${TRANSLATION.name} ${total === 1 ? 'contains' : 'contain'} "${q}".${shown}`,
+        passages: verses.map(v => ({ reference: verseReference(v), text: v.text, explanation: '' })),
+      },
+      fromDevice: true,
+    };
+  };
+
+  const handleSearch = async (override?: string, skipCache = false, askModel = false) => {
+    const q = (override ?? query).trim();
+    if (!q) return;
+    lastQueryRef.current = q;
+    lastLanguageRef.current = language;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStopped(false);
+    setNarrating(false);
+
+    if (!askModel || isOffline) {
+      setLoading(true);
+      setResult(null);
+      try {
+        const local = await localReference(q);
+        // A newer search started while the Bible was loading
+        if (lastQueryRef.current !== q) return;
+        if (local) {
+          setResult(local);
+          setSource('local');
+          return;
+        }
+        if (isOffline) {
+          const { answer, fromDevice } = await offlineAnswer(q);
+          if (lastQueryRef.current !== q) return;
+          setResult(answer);
+          setSource(fromDevice ? 'local' : 'ai');
+          return;
+        }
+      } finally {
+        if (lastQueryRef.current === q) setLoading(false);
+      }
+    }
 
-  const handleSearch = async () => {
-    if (!query.trim()) return;
     triggerSmartAd();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
-    setResult('');
-    setAudioUrl(null);
-    setIsPlaying(false);
+    setStreaming(true);
+    setSource('ai');
+    setResult(null);
     try {
-      const text = await searchBible(query + ` (Reply in ${language})`);
-      if (text === "MISSING_KEY" || text === "INVALID_KEY") {
-        setResult("API Key Issue: Please ensure your environment is configured correctly.");
-      } else if (text === "KEY_LEAKED") {
-        setResult("SECURITY ALERT: Your Google API Key was disabled because it was leaked online. Please generate a new key at aistudio.google.com.");
-      } else if (text === "KEY_EXPIRED") {
-        setResult("API KEY EXPIRED: Your Google API Key is no longer valid. Please generate a new key at aistudio.google.com.");
+      const answer = await streamBible(q, language, (partial) => {
+        if (abortRef.current !== controller) return;
+        setLoading(false);
+        setResult(partial);
+      }, { signal: controller.signal, skipCache });
+      if (abortRef.current !== controller) return;
+      if (answer.summary === "MISSING_KEY" || answer.summary === "INVALID_KEY") {
+        setResult(notice("API Key Issue: Please ensure your environment is configured correctly."));
+      } else if (answer.summary === "KEY_LEAKED") {
+        setResult(notice("SECURITY ALERT: Your Google API Key was disabled because it was leaked online. Please generate a new key at aistudio.google.com."));
+      } else if (answer.summary === "KEY_EXPIRED") {
+        setResult(notice("API KEY EXPIRED: Your Google API Key is no longer valid. Please generate a new key at aistudio.google.com."));
       } else {
-        setResult(text);
+        setResult(answer);
+      }
+    } catch (e: any) { setResult(notice("Network Error.")); } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreaming(false);
       }
-    } catch (e: any) { setResult("Network Error."); } finally { setLoading(false); }
+    }
+  };
+
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+    setStopped(true);
+  };
+
+  // Shared verse links open the app as /?verse=John%203:16
+  useEffect(() => {
+    const verse = new URLSearchParams(window.location.search).get('verse');
+    if (verse) {
+      setQuery(verse);
+      handleSearch(verse);
+    }
+  }, []);
+
+  useEffect(() => {
+    const openVerse = (e: Event) => {
+      const verse = (e as CustomEvent<string>).detail;
+      setQuery(verse);
+      handleSearch(verse);
+    };
+    window.addEventListener(OPEN_VERSE_EVENT, openVerse);
+    return () => window.removeEventListener(OPEN_VERSE_EVENT, openVerse);
+  }, [language, isOffline]);
+
+  const copyPassage = (p: BibleResult) => {
+    navigator.clipboard.writeText(`${p.reference}\n"${p.text}"`);
+    setCopiedRef(p.reference);
+    setTimeout(() => setCopiedRef(null), 1500);
+  };
+
+  const sharePassage = async (p: BibleResult) => {
+    const url = `${window.location.origin}${window.location.pathname}?verse=${encodeURIComponent(p.reference)}`;
+    if (typeof navigator.share === 'function') {
+      try { await navigator.share({ title: p.reference, text: `"${p.text}"`, url }); return; } catch (e) {}
+    }
+    navigator.clipboard.writeText(url);
+    alert("Link copied to clipboard!");
   };
 
   const startListening = () => {
@@ -48,25 +218,16 @@ const BibleSearch: React.FC<BibleSearchProps> = ({ language }) => {
     recognition.start();
   };
 
-  const generateAudio = async () => {
-    if (!result) return;
-    if (audioUrl && audioRef.current) { audioRef.current.play(); return; }
-    setIsAudioLoading(true);
-    try {
-      const url = await speakText(result);
-      setAudioUrl(url);
-    } catch (e: any) { 
-      if (e.message === "KEY_LEAKED") alert("Cannot generate audio: API Key Leaked/Revoked.");
-      else if (e.message === "KEY_EXPIRED") alert("Cannot generate audio: API Key Expired.");
-      else alert(e.message); 
-    } finally { setIsAudioLoading(false); }
-  };
-
-  const togglePlayback = () => { if (audioRef.current) isPlaying ? audioRef.current.pause() : audioRef.current.play(); };
+  // The summary's lines, then one paragraph per passage card
+  const summaryLines = result ? cleanMarkdown(result.summary).split('\n') : [];
+  const narrationParagraphs = () => [
+    ...summaryLines,
+    ...(result?.passages || []).map(p => [p.reference, p.text && `"${p.text}"`, p.explanation].filter(Boolean).join('\n')),
+  ];
 
   return (
     <div className="flex flex-col min-h-full relative w-full max-w-screen-xl mx-auto">
-      {loading && <LoadingScreen />}
+      {loading && !result && <LoadingScreen />}
       
       <div className="p-3 md:p-6 w-full flex-1 flex flex-col">
         <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-white mb-4 md:mb-6 text-center">Scripture Search</h2>
@@ -84,35 +245,85 @@ const BibleSearch: React.FC<BibleSearchProps> = ({ language }) => {
             <button onClick={startListening} className={`p-2 md:p-3 rounded-xl transition-all ${listening ? 'bg-red-50 text-red-600 animate-pulse' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
             </button>
-            <button onClick={handleSearch} disabled={loading} className="bg-indigo-600 text-white p-2 md:p-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-md">
+            <button onClick={() => handleSearch()} disabled={streaming} className="bg-indigo-600 text-white p-2 md:p-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-md">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
             </button>
           </div>
         </div>
 
         <div className="flex-1 pb-4">
+          <Annotatable source="BIBLE" title={lastQueryRef.current} disabled={streaming}>
           {result && (
             <div className="bg-white dark:bg-slate-900 p-4 md:p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-4 transition-colors">
-              <div className="flex justify-end mb-4 border-b border-slate-50 dark:border-slate-800 pb-2 gap-2">
-                 {audioUrl && <audio ref={audioRef} src={audioUrl} autoPlay onEnded={() => setIsPlaying(false)} onPause={() => setIsPlaying(false)} onPlay={() => setIsPlaying(true)} />}
-                 {!audioUrl ? (
-                    <button onClick={generateAudio} disabled={isAudioLoading} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-3 py-2 rounded-lg transition-colors">
-                      {isAudioLoading ? "Loading..." : "Read Aloud"}
+              <div className="flex justify-end items-center mb-4 border-b border-slate-50 dark:border-slate-800 pb-2 gap-2">
+                 {stopped && <span className="mr-auto text-[10px] font-bold uppercase tracking-wider text-slate-400">Stopped early</span>}
+                 {source === 'ai' && !streaming && <span className="mr-auto"><CitationBadge report={citations} checking={checking} /></span>}
+                 {source === 'local' && <span className="mr-auto text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400">{TRANSLATION.name} · On device</span>}
+                 {streaming ? (
+                    <button onClick={stopStreaming} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors">
+                      <span className="w-2 h-2 bg-red-500 rounded-sm"></span> Stop
                     </button>
-                 ) : (
-                    <button onClick={togglePlayback} className="p-2 text-indigo-700 dark:text-indigo-300 rounded-md transition-all shadow-sm flex items-center gap-2 px-3 border border-indigo-100 dark:border-indigo-900">
-                      {isPlaying ? "PAUSE" : "PLAY"}
+                 ) : <>
+                 {source === 'local' ? (!isOffline && (
+                 <button onClick={() => handleSearch(lastQueryRef.current, false, true)} className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-3 py-2 rounded-lg transition-colors">
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" /></svg> Ask AI
+                 </button>
+                 )) : (
+                 <button onClick={() => handleSearch(lastQueryRef.current, true, true)} title="Regenerate (skip saved answer)" className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-3 py-2 rounded-lg transition-colors">
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg> Regenerate
+                 </button>
+                 )}
+                 {!narrating && (
+                    <button onClick={() => setNarrating(true)} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-3 py-2 rounded-lg transition-colors">
+                      Read Aloud
                     </button>
                  )}
+                 </>}
               </div>
+              {narrating && !streaming && (
+                <NarrationPlayer
+                  paragraphs={narrationParagraphs()}
+                  // Answers from the bundled Bible have no History entry to keep audio with
+                  source={source === 'ai' ? { id: buildCacheKey('BIBLE', lastQueryRef.current, lastLanguageRef.current), tool: 'BIBLE', title: lastQueryRef.current, language: lastLanguageRef.current } : undefined}
+                  onSection={setReading}
+                  onClose={() => setNarrating(false)}
+                />
+              )}
               <div className="prose prose-indigo dark:prose-invert prose-base md:prose-lg font-serif text-slate-700 dark:text-slate-300 max-w-none">
-                {cleanMarkdown(result).split('\n').map((line, i) => {
+                {summaryLines.map((line, i) => {
                   if (line.trim() === '') return <br key={i} />;
-                  return <p key={i} className="mb-3 leading-relaxed">{line}</p>;
+                  return <p key={i} className={`mb-3 leading-relaxed transition-colors ${isReading(reading, i) ? 'bg-indigo-50 dark:bg-indigo-900/30 rounded-lg' : ''}`}><ScriptureText text={line} language={language} citations={citations?.citations} /></p>;
                 })}
               </div>
             </div>
           )}
+
+          {result && result.passages.length > 0 && (
+            <div className="mt-4 space-y-4">
+              {result.passages.map((p, i) => {
+                const citation = citations?.citations[formatReferenceList(parseReferenceList(p.reference, language))];
+                return (
+                <div key={`${p.reference}-${i}`} className={`bg-white dark:bg-slate-900 p-4 md:p-6 rounded-2xl shadow-sm border animate-in fade-in slide-in-from-bottom-4 transition-colors ${isReading(reading, summaryLines.length + i) ? 'border-indigo-300 dark:border-indigo-700 ring-2 ring-indigo-100 dark:ring-indigo-900/50' : 'border-slate-100 dark:border-slate-800'}`}>
+                  <div className="flex items-center justify-between mb-3 gap-2">
+                    <h3 className="font-serif font-bold text-indigo-700 dark:text-indigo-300 text-lg">{p.reference}</h3>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {citation && <CitationStatusLabel citation={citation} />}
+                      <button onClick={() => copyPassage(p)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-2 py-1 rounded-md transition-colors">
+                        {copiedRef === p.reference ? "Copied" : "Copy"}
+                      </button>
+                      <button onClick={() => sharePassage(p)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-2 py-1 rounded-md transition-colors">
+                        Link
+                      </button>
+                    </div>
+                  </div>
+                  {p.text && <blockquote className="border-l-4 border-indigo-200 dark:border-indigo-800 pl-4 mb-3 font-serif italic text-slate-800 dark:text-slate-200 leading-relaxed">"<ScriptureText text={p.text} />"</blockquote>}
+                  {p.explanation && <p className="text-sm text-slate-500 dark:text-slate-400 leading-relaxed"><ScriptureText text={p.explanation} language={language} citations={citations?.citations} /></p>}
+                </div>
+                );
+              })}
+            </div>
+          )}
+          </Annotatable>
         </div>
       </div>
     </div>
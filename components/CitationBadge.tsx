@@ -0,0 +1,57 @@
+import React from 'react';
+import { Citation, CitationReport, CitationStatus } from '../services/citations';
+
+const STATUS_STYLES: Record<CitationStatus, { label: string; symbol: string; className: string }> = {
+  verified: { label: 'Verified', symbol: '✓', className: 'text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/30' },
+  exists: { label: 'Unchecked', symbol: '○', className: 'text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800' },
+  paraphrased: { label: 'Paraphrased', symbol: '≈', className: 'text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30' },
+  not_found: { label: 'Not found', symbol: '!', className: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30' },
+};
+
+// Small marker after a reference in running text
+export const CitationMark: React.FC<{ citation: Citation }> = ({ citation }) => {
+  const style = STATUS_STYLES[citation.status];
+  return (
+    <sup title={`${style.label}: ${citation.note}`} aria-label={style.label} className={`ml-0.5 px-1 rounded font-sans font-bold not-italic text-[10px] ${style.className}`}>
+      {style.symbol}
+    </sup>
+  );
+};
+
+// Labelled status for a passage card
+export const CitationStatusLabel: React.FC<{ citation: Citation }> = ({ citation }) => {
+  const style = STATUS_STYLES[citation.status];
+  return (
+    <span title={citation.note} className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md ${style.className}`}>
+      {style.symbol} {style.label}
+    </span>
+  );
+};
+
+// Share of citations that checked out against the offline Bible
+const CitationBadge: React.FC<{ report: CitationReport | null; checking?: boolean }> = ({ report, checking }) => {
+  if (checking) return <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 animate-pulse">Checking citations...</span>;
+  if (!report || report.total === 0) return null;
+  const share = Math.round((report.verified / report.total) * 100);
+  // References that only exist are not counted as verified, but are not faults either
+  const faults = report.total - report.verified - report.exists;
+  const status: CitationStatus = share === 100 ? 'verified' : faults === 0 ? 'exists' : share >= 70 ? 'paraphrased' : 'not_found';
+  const counts = (['exists', 'paraphrased', 'not_found'] as CitationStatus[])
+    .map(s => [s, Object.values<Citation>(report.citations).filter(c => c.status === s).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([s, n]) => `${n} ${STATUS_STYLES[s].label.toLowerCase()}`);
+  // Nothing could be compared (an answer not in English): a share of 0% would read as a failure
+  const label = faults === 0 && report.verified === 0
+    ? `${report.total} ${report.total === 1 ? 'reference' : 'references'} found, wording not compared`
+    : `${share}% of ${report.total} ${report.total === 1 ? 'citation' : 'citations'} verified`;
+  return (
+    <span
+      title={[`${report.verified} of ${report.total} citations verified`, ...counts].join(', ')}
+      className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md ${STATUS_STYLES[status].className}`}
+    >
+      {label}
+    </span>
+  );
+};
+
+export default CitationBadge;
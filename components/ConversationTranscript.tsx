@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import ScriptureText from './ScriptureText';
+
+interface ConversationTranscriptProps {
+  conversation: Conversation;
+  language?: string;
+}
+
+// Turns shown before "Show all"
+const PREVIEW_TURNS = 4;
+
+const formatClock = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+};
+
+// A voice session as a chat: the user's turns on the right, the counselor's on the left
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({ conversation, language }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { turns } = conversation;
+  const shown = expanded ? turns : turns.slice(0, PREVIEW_TURNS);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+        {turns.length} {turns.length === 1 ? 'turn' : 'turns'} · {formatDuration(conversation.endedAt - conversation.startedAt)}
+      </p>
+      {shown.map((turn, i) => (
+        <div key={i} className={`flex flex-col ${turn.role === 'user' ? 'items-end' : 'items-start'}`}>
+          <div className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm leading-relaxed whitespace-pre-line ${turn.role === 'user' ? 'bg-indigo-600 text-white rounded-br-sm' : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-serif rounded-bl-sm'}`}>
+            <ScriptureText text={turn.text.trim()} language={language} />
+          </div>
+          <span className="text-[10px] text-slate-400 mt-0.5 px-1">{turn.role === 'user' ? 'You' : 'Counselor'} · {formatClock(turn.at)}</span>
+        </div>
+      ))}
+      {turns.length > PREVIEW_TURNS && (
+        <button onClick={() => setExpanded(!expanded)} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline">
+          {expanded ? "Show less" : `Show all ${turns.length} turns`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConversationTranscript;
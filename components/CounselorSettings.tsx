@@ -0,0 +1,41 @@
+import React from 'react';
+import { PERSONAS, DEPTH_LABELS, findPersona } from '../utils/personas';
+import { VoiceSettings, saveVoiceSettings } from '../services/preferences';
+import VoicePicker from './VoicePicker';
+
+interface CounselorSettingsProps {
+  settings: VoiceSettings;
+  disabled?: boolean;
+}
+
+// Persona and voices, chosen before a call starts
+const CounselorSettings: React.FC<CounselorSettingsProps> = ({ settings, disabled = false }) => {
+  const persona = findPersona(settings.persona);
+  const update = (patch: Partial<VoiceSettings>) => saveVoiceSettings({ ...settings, ...patch });
+
+  return (
+    <fieldset disabled={disabled} className="relative z-10 mx-4 md:mx-auto md:w-full md:max-w-2xl mb-3 px-4 py-3 rounded-2xl bg-white/5 backdrop-blur-md border border-white/10 space-y-3">
+      <div role="radiogroup" aria-label="Counselor" className="flex gap-2 overflow-x-auto pb-1">
+        {PERSONAS.map(p => (
+          <button
+            key={p.id}
+            role="radio"
+            aria-checked={p.id === persona.id}
+            // The previous persona's voice choice would rarely suit the next one
+            onClick={() => update({ persona: p.id, liveVoice: null })}
+            className={`shrink-0 text-xs font-bold px-3 py-1.5 rounded-full border transition-colors ${p.id === persona.id ? 'bg-white text-slate-950 border-white' : 'border-white/10 text-slate-400 hover:text-slate-200'}`}
+          >
+            {p.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">{persona.description} <span className="text-slate-500">· {DEPTH_LABELS[persona.depth]}</span></p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <VoicePicker dark label="Live voice" value={settings.liveVoice} defaultVoice={persona.voice} onChange={(liveVoice) => update({ liveVoice })} />
+        <VoicePicker dark label="Read-aloud voice" value={settings.readAloudVoice} onChange={(voice) => voice && update({ readAloudVoice: voice })} />
+      </div>
+    </fieldset>
+  );
+};
+
+export default CounselorSettings;
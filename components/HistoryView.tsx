@@ -1,28 +1,155 @@
 
-import React, { useEffect, useState } from 'react';
-import { getHistory, clearHistory, HistoryItem, HISTORY_EVENT } from '../services/cache';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { getHistory, clearHistory, getRetention, setRetention, filterHistory, historyFacets, exportHistoryJson, exportHistoryMarkdown, importHistory, isConversation, conversationToText, HistoryItem, HistoryTool, RetentionSettings, HISTORY_EVENT } from '../services/cache';
+import { downloadFile, dateStamp } from '../utils/download';
+import { parseBibleAnswer, bibleAnswerToText } from '../services/gemini';
+import { getLanguageName } from '../constants';
+import { SermonSeries } from '../types';
+import ScriptureText from './ScriptureText';
+import ConversationTranscript from './ConversationTranscript';
+import AudioLibrary from './AudioLibrary';
+
+const TOOLS: HistoryTool[] = ['BIBLE', 'BIO', 'SERMON', 'SERIES', 'REFLECTION', 'LIVE'];
+
+const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// "2026-03-01" from a date input, as local midnight
+const parseDateInput = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
 
 const HistoryView: React.FC = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [retention, setRetentionState] = useState<RetentionSettings>(getRetention());
+  const [showRetention, setShowRetention] = useState(false);
+  const [showAudio, setShowAudio] = useState(false);
+
+  const [searchText, setSearchText] = useState('');
+  const [toolFilter, setToolFilter] = useState<HistoryTool[]>([]);
+  const [languageFilter, setLanguageFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
 
-  const refreshHistory = () => {
-    setHistory(getHistory());
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshHistory = async () => {
+    setHistory(await getHistory());
   };
 
   useEffect(() => {
     refreshHistory();
+    // HISTORY_EVENT also fires for changes made in other tabs
     window.addEventListener(HISTORY_EVENT, refreshHistory);
-    // Also listen to storage events (cross-tab sync)
-    window.addEventListener('storage', refreshHistory);
-    
     return () => {
       window.removeEventListener(HISTORY_EVENT, refreshHistory);
-      window.removeEventListener('storage', refreshHistory);
     };
   }, []);
 
-  const formatDate = (ts: number) => {
-    return new Date(ts).toLocaleDateString() + ' ' + new Date(ts).toLocaleTimeString();
+  const updateRetention = async (patch: Partial<RetentionSettings>) => {
+    const next = { ...retention, ...patch };
+    setRetentionState(next);
+    try {
+      await setRetention(next);
+    } catch (e) {
+      console.warn("Failed to apply retention", e);
+      alert("The setting was saved, but older history could not be removed yet.");
+    }
+  };
+
+  const facets = useMemo(() => historyFacets(history), [history]);
+
+  const filtered = useMemo(() => {
+    const to = parseDateInput(toDate);
+    return filterHistory(history, {
+      text: searchText,
+      tools: toolFilter,
+      language: languageFilter || undefined,
+      from: parseDateInput(fromDate),
+      // The "to" day is inclusive
+      to: to !== undefined ? to + 24 * 60 * 60 * 1000 : undefined,
+    });
+  }, [history, searchText, toolFilter, languageFilter, fromDate, toDate]);
+
+  // Newest day first; items inside a day keep their (newest first) order
+  const groups = useMemo(() => {
+    const byDay = new Map<number, HistoryItem[]>();
+    filtered.forEach(item => {
+      const day = startOfDay(item.timestamp);
+      if (!byDay.has(day)) byDay.set(day, []);
+      byDay.get(day)!.push(item);
+    });
+    return Array.from(byDay.entries());
+  }, [filtered]);
+
+  const isFiltering = !!(searchText.trim() || toolFilter.length || languageFilter || fromDate || toDate);
+
+  const toggleTool = (tool: HistoryTool) => {
+    setToolFilter(prev => prev.includes(tool) ? prev.filter(t => t !== tool) : [...prev, tool]);
+  };
+
+  const resetFilters = () => {
+    setSearchText('');
+    setToolFilter([]);
+    setLanguageFilter('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  // Exports the selection if there is one, otherwise everything
+  const exportItems = (format: 'json' | 'md') => {
+    const items = selected.size > 0 ? history.filter(item => selected.has(item.id)) : history;
+    if (items.length === 0) return;
+    if (format === 'json') downloadFile(`faithwalk-history-${dateStamp()}.json`, exportHistoryJson(items), 'application/json');
+    else downloadFile(`faithwalk-history-${dateStamp()}.md`, exportHistoryMarkdown(items), 'text/markdown');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { added, duplicates, invalid } = await importHistory(await file.text());
+      const skipped = [
+        duplicates ? `${duplicates} duplicate${duplicates === 1 ? '' : 's'}` : '',
+        invalid ? `${invalid} unreadable item${invalid === 1 ? '' : 's'}` : '',
+      ].filter(Boolean).join(' and ');
+      alert(`Imported ${added} item${added === 1 ? '' : 's'}${skipped ? `, skipped ${skipped}` : ''}.`);
+    } catch (err: any) {
+      alert(err.message || "Import failed.");
+    }
+  };
+
+  const formatDay = (day: number) => {
+    const today = startOfDay(Date.now());
+    if (day === today) return 'Today';
+    if (day === startOfDay(today - 1)) return 'Yesterday';
+    return new Date(day).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  };
+
+  const formatTime = (ts: number) => {
+    return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
   const getIcon = (tool: string) => {
@@ -30,6 +157,8 @@ const HistoryView: React.FC = () => {
       case 'BIBLE': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>;
       case 'BIO': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>;
       case 'SERMON': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>;
+      case 'SERIES': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>;
+      case 'REFLECTION': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>;
       case 'LIVE': return <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>;
       default: return null;
     }
@@ -40,11 +169,24 @@ const HistoryView: React.FC = () => {
       case 'BIO': return 'Biography';
       case 'BIBLE': return 'Scripture';
       case 'SERMON': return 'Sermon';
+      case 'SERIES': return 'Sermon Series';
+      case 'REFLECTION': return 'Reading Reflection';
       case 'LIVE': return 'Conversation';
       default: return tool;
     }
   };
 
+  const getResultText = (item: HistoryItem): string => {
+    if (item.tool === 'BIBLE') return bibleAnswerToText(parseBibleAnswer(item.result));
+    if (item.tool === 'SERIES') {
+      const series = item.result as SermonSeries;
+      const weeks = series.weeks.map((w, i) => `Week ${i + 1}: ${w.title} (${w.mainText})${w.preached ? ' ✓' : w.sermon ? ' ✎' : ''}`);
+      return [series.title, series.description, ...weeks].filter(Boolean).join('\n');
+    }
+    if (isConversation(item.result)) return conversationToText(item.result);
+    return typeof item.result === 'string' ? item.result : item.result.text;
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert("Result copied to clipboard!");
@@ -58,15 +200,125 @@ const HistoryView: React.FC = () => {
             <button onClick={refreshHistory} className="p-2 text-slate-400 hover:text-indigo-600 transition-colors" title="Refresh">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
             </button>
+            <button onClick={() => setShowRetention(!showRetention)} className={`p-2 transition-colors ${showRetention ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`} title="Storage">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" /></svg>
+            </button>
+            <button onClick={() => setShowAudio(!showAudio)} className={`p-2 transition-colors ${showAudio ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`} title="Audio">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" /></svg>
+            </button>
         </div>
-        {history.length > 0 && (
+        {history.length > 0 && !selecting && (
           <button onClick={() => { clearHistory(); }} className="text-sm text-red-500 hover:text-red-600 font-semibold px-3 py-1 bg-red-50 dark:bg-red-900/20 rounded-lg transition-colors">
             Clear All
           </button>
         )}
       </div>
 
+      <div className="flex items-center gap-2 mb-4 shrink-0 flex-wrap">
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        <button onClick={() => fileInputRef.current?.click()} className="text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-colors">
+          Import
+        </button>
+        {history.length > 0 && (
+          <>
+            <button onClick={() => exportItems('json')} className="text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-colors">
+              Backup{selected.size > 0 ? ` (${selected.size})` : ''}
+            </button>
+            <button onClick={() => exportItems('md')} className="text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-colors">
+              Markdown{selected.size > 0 ? ` (${selected.size})` : ''}
+            </button>
+            <button onClick={() => selecting ? stopSelecting() : setSelecting(true)} className={`ml-auto text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${selecting ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600'}`}>
+              {selecting ? 'Done' : 'Select'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {showRetention && (
+        <div className="mb-4 p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800 shadow-sm grid grid-cols-2 gap-3 shrink-0 animate-in fade-in slide-in-from-top-2">
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider">Keep at most</span>
+            <select value={retention.maxItems} onChange={(e) => updateRetention({ maxItems: parseInt(e.target.value) })} className="w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              {[50, 100, 200, 500, 1000].map(n => <option key={n} value={n}>{n} items</option>)}
+              <option value={0}>Unlimited</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider">Delete after</span>
+            <select value={retention.maxAgeDays} onChange={(e) => updateRetention({ maxAgeDays: parseInt(e.target.value) })} className="w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              <option value={30}>30 days</option>
+              <option value={90}>90 days</option>
+              <option value={365}>1 year</option>
+              <option value={0}>Never</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {showAudio && <AudioLibrary />}
+
+      {history.length > 0 && (
+        <div className="mb-4 shrink-0 space-y-3">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+              <input
+                type="search"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder="Search questions and answers..."
+                className="w-full pl-9 pr-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-800 dark:text-white shadow-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              />
+            </div>
+            <button onClick={() => setShowFilters(!showFilters)} className={`px-3 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${showFilters || isFiltering ? 'border-indigo-200 bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20 dark:border-indigo-800' : 'border-slate-200 dark:border-slate-700 text-slate-400 hover:text-indigo-600'}`}>
+              Filters
+            </button>
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+            {TOOLS.filter(tool => facets.tools[tool]).map(tool => (
+              <button key={tool} onClick={() => toggleTool(tool)} className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${toolFilter.includes(tool) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-indigo-300'}`}>
+                {getLabel(tool)} <span className="opacity-60">{facets.tools[tool]}</span>
+              </button>
+            ))}
+          </div>
+
+          {showFilters && (
+            <div className="p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800 shadow-sm grid grid-cols-2 gap-3 animate-in fade-in slide-in-from-top-2">
+              <label className="block col-span-2">
+                <span className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider">Language</span>
+                <select value={languageFilter} onChange={(e) => setLanguageFilter(e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                  <option value="">All languages</option>
+                  {Object.entries(facets.languages).map(([code, count]) => <option key={code} value={code}>{getLanguageName(code)} ({count})</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider">From</span>
+                <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+              </label>
+              <label className="block">
+                <span className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider">To</span>
+                <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+              </label>
+              {isFiltering && (
+                <button onClick={resetFilters} className="col-span-2 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 py-1 transition-colors">
+                  Reset filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {isFiltering && <p className="text-xs text-slate-400">{filtered.length} of {history.length} items</p>}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto space-y-4 pb-24 min-h-0">
+        {history.length > 0 && filtered.length === 0 && (
+          <div className="text-center text-slate-400 mt-12">
+            <p>No matching history.</p>
+            <button onClick={resetFilters} className="text-sm text-indigo-600 font-semibold mt-2">Reset filters</button>
+          </div>
+        )}
         {history.length === 0 ? (
           <div className="text-center text-slate-400 mt-20">
             <div className="mb-4 flex justify-center opacity-30">
@@ -76,31 +328,48 @@ const HistoryView: React.FC = () => {
             <p className="text-sm">Queries you make will appear here automatically.</p>
           </div>
         ) : (
-          history.map(item => (
-            <div key={item.id} className="bg-white dark:bg-slate-900 p-4 rounded-xl shadow-sm border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-2">
+          groups.map(([day, items]) => (
+           <section key={day} className="space-y-3">
+            <h3 className="sticky top-0 z-10 py-1 bg-slate-50/95 dark:bg-slate-950/95 backdrop-blur text-[11px] font-bold uppercase tracking-widest text-slate-400">{formatDay(day)}</h3>
+            {items.map(item => (
+            <div key={item.id} onClick={selecting ? () => toggleSelected(item.id) : undefined} className={`bg-white dark:bg-slate-900 p-4 rounded-xl shadow-sm border animate-in fade-in slide-in-from-bottom-2 ${selecting ? 'cursor-pointer' : ''} ${selected.has(item.id) ? 'border-indigo-400 dark:border-indigo-500 ring-1 ring-indigo-400' : 'border-slate-100 dark:border-slate-800'}`}>
               <div className="flex items-center gap-2 mb-2 text-indigo-600 dark:text-indigo-400 text-xs font-bold uppercase tracking-wide">
+                {selecting && <input type="checkbox" readOnly checked={selected.has(item.id)} className="w-4 h-4 text-indigo-600 rounded pointer-events-none" />}
                 {getIcon(item.tool)}
                 <span>{getLabel(item.tool)}</span>
-                <span className="text-slate-400 font-normal ml-auto">{formatDate(item.timestamp)}</span>
+                {item.language && <span className="text-slate-400 font-normal normal-case">· {getLanguageName(item.language)}</span>}
+                {item.options?.version && <span className="px-1.5 py-0.5 rounded bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 normal-case">Edited v{item.options.version}</span>}
+                <span className="text-slate-400 font-normal ml-auto">{formatTime(item.timestamp)}</span>
               </div>
               
+              {isConversation(item.result) ? (
+              <div className="mb-3">
+                 <p className="font-serif font-bold text-slate-800 dark:text-slate-200 mb-2"><ScriptureText text={item.query} language={item.language} /></p>
+                 <ConversationTranscript conversation={item.result} language={item.language} />
+              </div>
+              ) : (
               <div className="mb-3">
                  <p className="font-serif font-bold text-slate-800 dark:text-slate-200 mb-1">
-                   {item.tool === 'LIVE' ? 'User:' : ''} {item.query.replace(/::.*/, '')}
+                   {item.tool === 'LIVE' ? 'User:' : ''} <ScriptureText text={item.query.replace(/::.*/, '')} language={item.language} />
                  </p>
                  <div className={`text-slate-500 dark:text-slate-400 text-sm font-serif ${item.tool !== 'LIVE' ? 'line-clamp-3' : ''}`}>
                     {item.tool === 'LIVE' && <span className="font-bold text-indigo-500 mr-1">AI:</span>}
-                    {typeof item.result === 'string' ? item.result : item.result.text}
+                    <ScriptureText text={getResultText(item)} language={item.language} />
                  </div>
               </div>
+              )}
 
+              {!selecting && (
               <button 
-                onClick={() => copyToClipboard(typeof item.result === 'string' ? item.result : item.result.text)}
+                onClick={() => copyToClipboard(getResultText(item))}
                 className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 bg-indigo-50 dark:bg-indigo-900/20 px-3 py-2 rounded-lg w-full text-center hover:bg-indigo-100 dark:hover:bg-indigo-900/40 transition-colors"
               >
-                Copy Full Answer
+                {isConversation(item.result) ? "Copy Transcript" : "Copy Full Answer"}
               </button>
+              )}
             </div>
+            ))}
+           </section>
           ))
         )}
       </div>
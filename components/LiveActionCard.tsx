@@ -0,0 +1,49 @@
+import React from 'react';
+import { LiveAction, openBiography } from '../services/liveTools';
+import ScriptureText from './ScriptureText';
+
+interface LiveActionCardProps {
+  action: LiveAction;
+  language?: string;
+  onDismiss: () => void;
+}
+
+const ACTION_LABELS: Record<LiveAction['kind'], string> = {
+  passage: 'Passage',
+  prayer: 'Prayer request saved',
+  bookmark: 'Bookmarked',
+  biography: 'Biography',
+};
+
+// Something the counselor did during the call, shown over the dark Live view
+const LiveActionCard: React.FC<LiveActionCardProps> = ({ action, language, onDismiss }) => (
+  <div className="px-4 py-3 rounded-2xl bg-white/10 backdrop-blur-md border border-white/10 animate-in fade-in slide-in-from-bottom-4">
+    <div className="flex items-start justify-between gap-3">
+      <p className="text-[10px] font-bold uppercase tracking-wider text-amber-400">
+        {ACTION_LABELS[action.kind]}
+        {(action.kind === 'passage' || action.kind === 'bookmark') && <span className="text-slate-300"> · {action.reference}</span>}
+      </p>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-slate-500 hover:text-slate-300 transition-colors">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+      </button>
+    </div>
+    {action.kind === 'passage' && <p className="mt-1 max-h-28 overflow-y-auto font-serif text-sm leading-relaxed text-amber-50">{action.text}</p>}
+    {action.kind === 'bookmark' && <p className="mt-1 font-serif text-sm text-slate-300 line-clamp-2">{action.text}</p>}
+    {action.kind === 'prayer' && (
+      <p className="mt-1 text-sm text-slate-200">
+        <ScriptureText text={action.text} language={language} />
+        {action.person && <span className="text-slate-400"> · for {action.person}</span>}
+      </p>
+    )}
+    {action.kind === 'biography' && (
+      <div className="mt-1 flex items-center justify-between gap-3">
+        <p className="font-serif text-sm text-slate-200">{action.name}</p>
+        <button onClick={() => openBiography(action.name)} className="shrink-0 text-[10px] font-bold uppercase tracking-wider text-amber-300 hover:text-amber-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg transition-colors">
+          Open in Missions
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+export default LiveActionCard;
@@ -1,29 +1,55 @@
-import React, { useState, useRef } from 'react';
-import { getMissionaryBioWithMaps, speakText, cleanMarkdown, triggerSmartAd } from '../services/gemini';
+import React, { useState, useRef, useEffect } from 'react';
+import { streamMissionaryBio, cleanMarkdown, triggerSmartAd } from '../services/gemini';
+import { buildCacheKey } from '../services/cache';
 import LoadingScreen from './LoadingScreen';
+import ScriptureText from './ScriptureText';
+import Annotatable from './Annotatable';
+import NarrationPlayer from './NarrationPlayer';
+import { NarrationChunk, isReading } from '../utils/narration';
 
-interface MissionaryBioProps { language: string; }
+interface MissionaryBioProps {
+  language: string;
+  // Opened from elsewhere, e.g. by the voice counselor; `at` tells repeat requests apart
+  request?: { name: string; at: number } | null;
+}
 
-const MissionaryBio: React.FC<MissionaryBioProps> = ({ language }) => {
+const MissionaryBio: React.FC<MissionaryBioProps> = ({ language, request }) => {
   const [name, setName] = useState('');
   const [bioData, setBioData] = useState<{ text: string, locations: any[] } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const [stopped, setStopped] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const lastNameRef = useRef('');
+  // The language the biography on screen was written in, which is part of its History key
+  const lastLanguageRef = useRef(language);
   const [listening, setListening] = useState(false);
   
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [narrating, setNarrating] = useState(false);
+  const [reading, setReading] = useState<NarrationChunk | null>(null);
 
-  const handleGenerate = async () => {
-    if (!name.trim()) return;
-    triggerSmartAd();
+  const handleGenerate = async (skipCache = false, requested?: string) => {
+    const subject = requested ?? (skipCache ? lastNameRef.current : name.trim());
+    if (!subject) return;
+    lastNameRef.current = subject;
+    lastLanguageRef.current = language;
+    // Biographies opened from a Live call card get no ad; the call may still be going
+    if (requested === undefined) triggerSmartAd();
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setStreaming(true);
+    setStopped(false);
     setBioData(null);
-    setAudioUrl(null);
-    setIsPlaying(false);
+    setNarrating(false);
     try {
-      const data = await getMissionaryBioWithMaps(name + ` (Reply in ${language})`);
+      const data = await streamMissionaryBio(subject, language, (partial) => {
+        if (abortRef.current !== controller) return;
+        setLoading(false);
+        setBioData(prev => ({ text: partial, locations: prev?.locations || [] }));
+      }, { signal: controller.signal, skipCache });
+      if (abortRef.current !== controller) return;
       if (data.text === "MISSING_KEY" || data.text === "INVALID_KEY") {
         setBioData({ text: "API Key Error. Please ensure your environment is configured correctly.", locations: [] });
       } else if (data.text === "KEY_LEAKED") {
@@ -36,10 +62,25 @@ const MissionaryBio: React.FC<MissionaryBioProps> = ({ language }) => {
     } catch (e) {
       setBioData({ text: "Network Error. Please try again.", locations: [] });
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreaming(false);
+      }
     }
   };
 
+  useEffect(() => {
+    if (!request) return;
+    setName(request.name);
+    handleGenerate(false, request.name);
+  }, [request]);
+
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+    setStopped(true);
+  };
+
   const startListening = () => {
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
       alert("Speech recognition not supported.");
@@ -57,29 +98,10 @@ const MissionaryBio: React.FC<MissionaryBioProps> = ({ language }) => {
     recognition.start();
   };
 
-  const generateAudio = async () => {
-    if (!bioData?.text) return;
-    if (audioUrl && audioRef.current) { audioRef.current.play(); return; }
-    setIsAudioLoading(true);
-    try {
-      const url = await speakText(bioData.text);
-      setAudioUrl(url);
-    } catch (e: any) {
-      if (e.message === "KEY_LEAKED") alert("Cannot generate audio: API Key Leaked/Revoked.");
-      else if (e.message === "KEY_EXPIRED") alert("Cannot generate audio: API Key Expired.");
-      else alert(e.message === "MISSING_KEY" ? "API Key Missing." : e.message);
-    } finally {
-      setIsAudioLoading(false);
-    }
-  };
-
-  const togglePlayback = () => {
-    if (audioRef.current) { isPlaying ? audioRef.current.pause() : audioRef.current.play(); }
-  };
 
   return (
     <div className="flex flex-col min-h-full relative w-full max-w-screen-xl mx-auto">
-      {loading && <LoadingScreen />}
+      {loading && !bioData && <LoadingScreen />}
 
       <div className="p-3 md:p-6 w-full flex-1 flex flex-col">
         <div className="bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-900/30 dark:to-orange-900/20 rounded-2xl p-4 md:p-8 mb-6 border border-amber-100 dark:border-amber-900/50 shadow-sm shrink-0 transition-colors">
@@ -104,7 +126,7 @@ const MissionaryBio: React.FC<MissionaryBioProps> = ({ language }) => {
               </button>
             </div>
             
-            <button onClick={handleGenerate} disabled={loading} className="w-full sm:w-auto bg-amber-700 text-white px-6 md:px-8 py-3 rounded-xl font-bold tracking-wide hover:bg-amber-800 shadow-md hover:shadow-lg transition-all">Go</button>
+            <button onClick={() => handleGenerate()} disabled={streaming} className="w-full sm:w-auto bg-amber-700 text-white px-6 md:px-8 py-3 rounded-xl font-bold tracking-wide hover:bg-amber-800 shadow-md hover:shadow-lg transition-all">Go</button>
           </div>
         </div>
 
@@ -123,25 +145,35 @@ const MissionaryBio: React.FC<MissionaryBioProps> = ({ language }) => {
               )}
 
               <div className="bg-white dark:bg-slate-900 p-4 md:p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 relative transition-colors">
-                 <div className="flex justify-end mb-6">
-                     {audioUrl && <audio ref={audioRef} src={audioUrl} autoPlay onEnded={() => setIsPlaying(false)} onPause={() => setIsPlaying(false)} onPlay={() => setIsPlaying(true)} />}
-                     {!audioUrl ? (
-                         <button onClick={generateAudio} disabled={isAudioLoading} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 px-3 py-2 rounded-lg transition-colors border border-amber-100 dark:border-amber-900/50">
-                           {isAudioLoading ? "Loading..." : "Listen"}
+                 <div className="flex justify-end items-center gap-2 mb-6">
+                     {stopped && <span className="mr-auto text-[10px] font-bold uppercase tracking-wider text-slate-400">Stopped early</span>}
+                     {streaming ? (
+                         <button onClick={stopStreaming} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 px-3 py-2 rounded-lg transition-colors border border-red-100 dark:border-red-900/50">
+                           <span className="w-2 h-2 bg-red-500 rounded-sm"></span> Stop
                          </button>
-                     ) : (
-                         <button onClick={togglePlayback} className="p-2 text-amber-800 dark:text-amber-200 hover:bg-amber-50 dark:hover:bg-amber-900/30 rounded-md transition-all flex items-center gap-2 px-3 border border-amber-100 dark:border-amber-800">
-                            {isPlaying ? "PAUSE" : "PLAY"}
+                     ) : <>
+                     <button onClick={() => handleGenerate(true)} title="Regenerate (skip saved answer)" className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-amber-700/60 dark:text-amber-400/60 hover:text-amber-700 hover:bg-amber-50 dark:hover:bg-amber-900/30 px-3 py-2 rounded-lg transition-colors">
+                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg> Regenerate
+                     </button>
+                     {!narrating && (
+                         <button onClick={() => setNarrating(true)} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 px-3 py-2 rounded-lg transition-colors border border-amber-100 dark:border-amber-900/50">
+                           Listen
                          </button>
                      )}
+                     </>}
                  </div>
+                 {narrating && !streaming && (
+                   <NarrationPlayer paragraphs={cleanMarkdown(bioData.text).split('\n')} accent="amber" source={{ id: buildCacheKey('BIO', lastNameRef.current, lastLanguageRef.current), tool: 'BIO', title: lastNameRef.current, language: lastLanguageRef.current }} onSection={setReading} onClose={() => setNarrating(false)} />
+                 )}
 
+                <Annotatable source="BIO" title={lastNameRef.current} disabled={streaming}>
                 <div className="prose prose-amber dark:prose-invert max-w-none font-serif text-slate-800 dark:text-slate-200 leading-loose prose-base md:prose-lg">
                   {cleanMarkdown(bioData.text).split('\n').map((line, i) => {
                     if (line.trim() === '') return <br key={i} />;
-                    return <p key={i} className="mb-4">{line}</p>;
+                    return <p key={i} className={`mb-4 transition-colors ${isReading(reading, i) ? 'bg-amber-50 dark:bg-amber-900/30 rounded-lg' : ''}`}><ScriptureText text={line} language={language} /></p>;
                   })}
                 </div>
+                </Annotatable>
               </div>
             </div>
           )}
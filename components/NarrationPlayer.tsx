@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { synthesizeWav } from '../services/gemini';
+import { NarrationSource, SavedNarration, getNarration, saveNarration } from '../services/audioLibrary';
+import { loadPreferences } from '../services/preferences';
+import { NarrationChunk, Narration, splitNarration, createNarration } from '../utils/narration';
+
+interface NarrationPlayerProps {
+  // What is read, one entry per paragraph as the page renders it
+  paragraphs: string[];
+  accent?: 'indigo' | 'amber';
+  // The section being read, or null when nothing is
+  onSection?: (chunk: NarrationChunk | null) => void;
+  // The History entry being read. When given, the audio is kept in the library once every
+  // section is ready, and a saved copy is played instead of synthesizing again.
+  source?: NarrationSource;
+  onClose: () => void;
+}
+
+const AUDIO_ERRORS: Record<string, string> = {
+  KEY_LEAKED: "Cannot generate audio: API Key Leaked/Revoked.",
+  KEY_EXPIRED: "Cannot generate audio: API Key Expired.",
+  MISSING_KEY: "Cannot generate audio: API Key Missing.",
+};
+
+const ACCENTS = {
+  indigo: {
+    panel: 'bg-indigo-50/90 dark:bg-indigo-950/80 border-indigo-100 dark:border-indigo-900',
+    button: 'bg-indigo-600 hover:bg-indigo-700 text-white',
+    icon: 'text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50',
+    played: 'bg-indigo-500',
+    ready: 'bg-indigo-200 dark:bg-indigo-800',
+    label: 'text-indigo-700 dark:text-indigo-300',
+  },
+  amber: {
+    panel: 'bg-amber-50/90 dark:bg-amber-950/80 border-amber-100 dark:border-amber-900/50',
+    button: 'bg-amber-600 hover:bg-amber-700 text-white',
+    icon: 'text-amber-800 dark:text-amber-200 hover:bg-amber-100 dark:hover:bg-amber-900/50',
+    played: 'bg-amber-500',
+    ready: 'bg-amber-200 dark:bg-amber-800',
+    label: 'text-amber-800 dark:text-amber-200',
+  },
+};
+
+// Within this many seconds of a section's start, "back" goes to the previous section
+const RESTART_THRESHOLD = 3;
+
+const sameChunks = (a: NarrationChunk[], b: NarrationChunk[]) =>
+  a.length === b.length && a.every((chunk, i) => chunk.text === b[i].text);
+
+const paragraphLabel = (chunk: NarrationChunk) =>
+  chunk.first === chunk.last ? `Paragraph ${chunk.first + 1}` : `Paragraphs ${chunk.first + 1}–${chunk.last + 1}`;
+
+// Reads long text aloud section by section. Playback starts when the first section is
+// ready. The sections after it are synthesized while it plays.
+const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ paragraphs, accent = 'indigo', onSection, source, onClose }) => {
+  // Re-renders as sections finish, for the save progress
+  const [, setReadyCount] = useState(0);
+  // undefined while the library is being checked
+  const [saved, setSaved] = useState<SavedNarration | null | undefined>(source ? undefined : null);
+  const savedRef = useRef<SavedNarration | null>(null);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+  const persistingRef = useRef(false);
+  const narrationRef = useRef<Narration | null>(null);
+  if (!narrationRef.current) {
+    narrationRef.current = createNarration(
+      splitNarration(paragraphs),
+      (text, i) => savedRef.current ? Promise.resolve(savedRef.current.sections[i]) : synthesizeWav(text),
+      () => setReadyCount(n => n + 1)
+    );
+  }
+  const narration = narrationRef.current;
+  const { chunks } = narration;
+  const colors = ACCENTS[accent];
+
+  const [index, setIndex] = useState(0);
+  const [url, setUrl] = useState<string | null>(null);
+  // Whether the listener wants audio playing; sections switch without clearing it
+  const [playing, setPlaying] = useState(true);
+  const [finished, setFinished] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const playingRef = useRef(playing);
+  playingRef.current = playing;
+
+  useEffect(() => () => narration.dispose(), []);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    getNarration(source.id).then(item => {
+      if (cancelled) return;
+      // A regenerated answer keeps its cache key, so the saved audio may be of older text
+      const usable = item && sameChunks(item.chunks, chunks) ? item : null;
+      savedRef.current = usable;
+      setSaved(usable);
+      if (usable) setSaveState('saved');
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const persist = async () => {
+    const sections = narration.sections();
+    if (!source || !sections || savedRef.current || persistingRef.current) return;
+    persistingRef.current = true;
+    setSaveState('saving');
+    try {
+      await saveNarration({ ...source, voice: loadPreferences().voices.readAloudVoice, createdAt: Date.now(), chunks, sections });
+      setSaveState('saved');
+    } catch (e) {
+      console.warn("Could not save narration", e);
+      setSaveState('failed');
+      persistingRef.current = false;
+    }
+  };
+
+  // Saving is opt-in: audio is only kept when the listener asks for it
+  const saveOffline = () => {
+    setSaveState('saving');
+    narration.loadAll().then(persist).catch((e: any) => {
+      setSaveState('failed');
+      setError(AUDIO_ERRORS[e.message] || `Cannot generate audio: ${e.message}`);
+    });
+  };
+
+  useEffect(() => {
+    onSection?.(finished ? null : chunks[index] || null);
+  }, [index, finished]);
+  useEffect(() => () => onSection?.(null), []);
+
+  useEffect(() => {
+    if (chunks.length === 0 || saved === undefined) return;
+    let cancelled = false;
+    setUrl(null);
+    setProgress(0);
+    setError(null);
+    narration.load(index).then(sectionUrl => {
+      if (cancelled) return;
+      setUrl(sectionUrl);
+      narration.prefetch(index);
+    }).catch((e: any) => {
+      if (!cancelled) setError(AUDIO_ERRORS[e.message] || `Cannot generate audio: ${e.message}`);
+    });
+    return () => { cancelled = true; };
+  }, [index, attempt, saved]);
+
+  useEffect(() => {
+    if (url && playingRef.current) audioRef.current?.play().catch(() => setPlaying(false));
+  }, [url]);
+
+  const goTo = (next: number) => {
+    setFinished(false);
+    if (next === index) {
+      if (audioRef.current) audioRef.current.currentTime = 0;
+      if (playing) audioRef.current?.play().catch(() => {});
+    } else {
+      setIndex(next);
+    }
+  };
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (playing) {
+      setPlaying(false);
+      audio?.pause();
+      return;
+    }
+    setPlaying(true);
+    if (finished) { goTo(0); audio?.play().catch(() => {}); return; }
+    audio?.play().catch(() => {});
+  };
+
+  const back = () => {
+    const audio = audioRef.current;
+    if (index > 0 && (!audio || audio.currentTime < RESTART_THRESHOLD)) goTo(index - 1);
+    else goTo(index);
+  };
+
+  const onEnded = () => {
+    if (index < chunks.length - 1) { setIndex(index + 1); return; }
+    setPlaying(false);
+    setFinished(true);
+    setIndex(0);
+  };
+
+  // Pauses from outside the player, such as headset buttons, count as the listener's choice
+  const onPause = () => { if (audioRef.current && !audioRef.current.ended) setPlaying(false); };
+
+  const totalLength = chunks.reduce((sum, c) => sum + c.text.length, 0) || 1;
+  const waiting = !url && !error && chunks.length > 0;
+  const current = chunks[index];
+
+  return (
+    <div className={`sticky top-0 z-10 mb-6 p-3 rounded-2xl border backdrop-blur-md ${colors.panel}`}>
+      {url && <audio ref={audioRef} src={url} onEnded={onEnded} onPause={onPause} onPlay={() => setPlaying(true)} onTimeUpdate={(e) => setProgress(e.currentTarget.duration ? e.currentTarget.currentTime / e.currentTarget.duration : 0)} />}
+      <div className="flex items-center gap-1">
+        <button onClick={back} disabled={chunks.length === 0} aria-label="Previous section" className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${colors.icon}`}>
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" /></svg>
+        </button>
+        <button onClick={togglePlay} disabled={chunks.length === 0} aria-label={playing ? "Pause" : "Play"} className={`p-2.5 rounded-full shadow-sm transition-colors disabled:opacity-40 ${colors.button}`}>
+          {playing ? (
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" /></svg>
+          ) : (
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+          )}
+        </button>
+        <button onClick={() => goTo(index + 1)} disabled={index >= chunks.length - 1} aria-label="Next section" className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${colors.icon}`}>
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" /></svg>
+        </button>
+        <div className="flex-1 min-w-0 px-2">
+          <p className={`text-[10px] font-bold uppercase tracking-wider truncate ${colors.label}`}>
+            {chunks.length === 0 ? "Nothing to read" : finished ? "Finished" : `Section ${index + 1} of ${chunks.length}${waiting ? " · Preparing..." : ""}`}
+          </p>
+          {current && !finished && <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{paragraphLabel(current)}</p>}
+        </div>
+        {source && (saveState === 'saved' ? (
+          <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 px-2">Saved offline</span>
+        ) : (
+          <button onClick={saveOffline} disabled={saveState === 'saving' || saved === undefined} className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md transition-colors disabled:opacity-60 ${colors.icon}`}>
+            {saveState === 'saving' ? `Saving ${chunks.filter((_, i) => narration.isReady(i)).length}/${chunks.length}` : "Save offline"}
+          </button>
+        ))}
+        <button onClick={onClose} aria-label="Close player" className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg transition-colors">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      {/* One segment per section, sized by its length; tap to jump there */}
+      <div className="flex gap-0.5 mt-2" role="group" aria-label="Sections">
+        {chunks.map((chunk, i) => {
+          const done = !finished && i < index;
+          const fill = finished ? 0 : i === index ? progress : done ? 1 : 0;
+          return (
+            <button
+              key={i}
+              onClick={() => goTo(i)}
+              title={`Section ${i + 1}: ${chunk.text.slice(0, 60)}…`}
+              aria-label={`Section ${i + 1}`}
+              aria-current={i === index && !finished}
+              style={{ flexGrow: chunk.text.length / totalLength }}
+              className={`relative h-2 basis-0 rounded-full overflow-hidden ${narration.isReady(i) ? colors.ready : 'bg-slate-200 dark:bg-slate-700'} ${i === index && waiting ? 'animate-pulse' : ''}`}
+            >
+              <span className={`absolute inset-y-0 left-0 ${colors.played}`} style={{ width: `${fill * 100}%` }} />
+            </button>
+          );
+        })}
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between gap-2 mt-2">
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          <button onClick={() => setAttempt(a => a + 1)} className="shrink-0 text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 px-2 py-1 rounded-md transition-colors">Retry</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NarrationPlayer;
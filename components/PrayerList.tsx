@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { PrayerRequest, PRAYERS_EVENT, loadPrayers, togglePrayerAnswered, deletePrayer } from '../services/prayers';
+import ScriptureText from './ScriptureText';
+
+// Prayer requests kept by the voice counselor; answered ones move to the end
+const PrayerList: React.FC = () => {
+  const [prayers, setPrayers] = useState<PrayerRequest[]>(loadPrayers);
+
+  useEffect(() => {
+    const load = () => setPrayers(loadPrayers());
+    window.addEventListener(PRAYERS_EVENT, load);
+    return () => window.removeEventListener(PRAYERS_EVENT, load);
+  }, []);
+
+  if (prayers.length === 0) return null;
+
+  const remove = (id: string) => {
+    if (confirm("Delete this prayer request?")) deletePrayer(id);
+  };
+
+  const sorted = [...prayers.filter(p => !p.answeredAt), ...prayers.filter(p => p.answeredAt)];
+  const open = prayers.filter(p => !p.answeredAt).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 md:p-5 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 mb-4">
+      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-3">Prayer requests · {open} open</p>
+      <ul className="space-y-3">
+        {sorted.map(p => (
+          <li key={p.id} className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={!!p.answeredAt}
+              onChange={() => togglePrayerAnswered(p.id)}
+              aria-label="Answered"
+              title="Mark as answered"
+              className="mt-1 w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500 shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm leading-relaxed ${p.answeredAt ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-slate-200'}`}>
+                <ScriptureText text={p.text} />
+              </p>
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mt-0.5">
+                {p.person && `For ${p.person} · `}{new Date(p.createdAt).toLocaleDateString()}
+                {p.answeredAt && ` · Answered ${new Date(p.answeredAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            <button onClick={() => remove(p.id)} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-2 py-1 rounded-md transition-colors shrink-0">Delete</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PrayerList;
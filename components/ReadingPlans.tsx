@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import { reflectOnReading, cleanMarkdown, triggerSmartAd } from '../services/gemini';
+import { loadPlans, savePlans, findPlan, startPlan, leavePlan, updateProgress, toggleDay, StoredPlans, PLANS_EVENT } from '../services/readingPlans';
+import { BUILT_IN_PLANS, CustomPlanSpec, PlanProgress, ReadingPlan, planStatus, rescheduleFromNextUnread, addDays } from '../utils/readingPlans';
+import { BOOKS, NEW_TESTAMENT_START, formatReferenceList } from '../utils/scriptureRef';
+import ScriptureText from './ScriptureText';
+import ReminderSettings from './ReminderSettings';
+
+interface ReadingPlansProps { language: string; isOffline: boolean; }
+
+const DURATION_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+const formatDate = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const ReadingPlans: React.FC<ReadingPlansProps> = ({ language, isOffline }) => {
+  const [plans, setPlans] = useState<StoredPlans>(loadPlans);
+  const [activeId, setActiveId] = useState<string | null>(() => loadPlans().progress[0]?.planId ?? null);
+  const [browsing, setBrowsing] = useState(false);
+  // The day on screen; null follows today's reading
+  const [viewDay, setViewDay] = useState<number | null>(null);
+
+  // Custom plan form
+  const [customName, setCustomName] = useState('');
+  const [customBooks, setCustomBooks] = useState<number[]>([]);
+  const [customDays, setCustomDays] = useState(30);
+
+  const [reflection, setReflection] = useState<{ key: string; text: string } | null>(null);
+  const [reflecting, setReflecting] = useState(false);
+
+  // Other tabs, and reminders in later sessions, may change the plans
+  useEffect(() => {
+    const reload = () => setPlans(loadPlans());
+    window.addEventListener(PLANS_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(PLANS_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const commit = (next: StoredPlans) => {
+    setPlans(next);
+    savePlans(next);
+  };
+
+  const begin = (planId: string, next: StoredPlans = plans) => {
+    commit(startPlan(next, planId));
+    setActiveId(planId);
+    setViewDay(null);
+    setBrowsing(false);
+  };
+
+  const createCustomPlan = () => {
+    if (customBooks.length === 0) return;
+    const books = [...customBooks].sort((a, b) => a - b);
+    const spec: CustomPlanSpec = {
+      id: `custom-${Date.now()}`,
+      name: customName.trim() || books.map(b => BOOKS[b].name).slice(0, 3).join(', ') + (books.length > 3 ? '…' : ''),
+      books,
+      days: customDays,
+    };
+    begin(spec.id, { ...plans, custom: [...plans.custom, spec] });
+    setCustomName('');
+    setCustomBooks([]);
+  };
+
+  const toggleBook = (book: number) =>
+    setCustomBooks(prev => prev.includes(book) ? prev.filter(b => b !== book) : [...prev, book]);
+
+  const toggleTestament = (from: number, to: number) => {
+    const books = Array.from({ length: to - from }, (_, i) => from + i);
+    const allSelected = books.every(b => customBooks.includes(b));
+    setCustomBooks(prev => allSelected ? prev.filter(b => b < from || b >= to) : [...new Set([...prev, ...books])]);
+  };
+
+  const active = plans.progress.find(p => p.planId === activeId) || null;
+  const activePlan = active ? findPlan(active.planId, plans.custom) : null;
+
+  const setProgress = (progress: PlanProgress) => commit(updateProgress(plans, progress));
+
+  const leave = () => {
+    if (!active || !confirm("Leave this plan? Your progress will be lost.")) return;
+    const next = leavePlan(plans, active.planId);
+    commit(next);
+    setActiveId(next.progress[0]?.planId ?? null);
+    setViewDay(null);
+  };
+
+  const reflect = async (passages: string, skipCache = false) => {
+    triggerSmartAd();
+    setReflecting(true);
+    try {
+      const text = await reflectOnReading(passages, language, { skipCache });
+      if (text === "MISSING_KEY" || text === "INVALID_KEY") {
+        setReflection({ key: passages, text: "API Key Missing or Invalid. Please check your environment variables." });
+      } else if (text === "KEY_LEAKED") {
+        setReflection({ key: passages, text: "SECURITY ALERT: Your Google API Key was disabled because it was leaked online. Please generate a new key at aistudio.google.com." });
+      } else if (text === "KEY_EXPIRED") {
+        setReflection({ key: passages, text: "API KEY EXPIRED: Your Google API Key is no longer valid. Please generate a new key at aistudio.google.com." });
+      } else {
+        setReflection({ key: passages, text });
+      }
+    } catch (e) {
+      setReflection({ key: passages, text: "Error writing reflection. Please check connection." });
+    } finally {
+      setReflecting(false);
+    }
+  };
+
+  const planCard = (plan: ReadingPlan) => {
+    const started = plans.progress.some(p => p.planId === plan.id);
+    return (
+      <div key={plan.id} className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900 flex flex-col gap-2">
+        <p className="font-serif font-bold text-slate-800 dark:text-slate-100">{plan.name}</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400 flex-1">{plan.description}</p>
+        <button
+          onClick={() => started ? (setActiveId(plan.id), setBrowsing(false), setViewDay(null)) : begin(plan.id)}
+          className={`self-start text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${started ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100' : 'text-white bg-indigo-600 hover:bg-indigo-700'}`}
+        >
+          {started ? "Continue" : "Start Plan"}
+        </button>
+      </div>
+    );
+  };
+
+  const catalog = (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {BUILT_IN_PLANS.map(planCard)}
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800 space-y-4">
+        <h3 className="font-serif font-bold text-lg text-slate-800 dark:text-slate-100">Custom Plan</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Plan name (optional)"
+            className="md:col-span-2 w-full p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <select value={customDays} onChange={(e) => setCustomDays(Number(e.target.value))} className="w-full p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none font-medium">
+            {DURATION_OPTIONS.map(n => <option key={n} value={n}>{n} days</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => toggleTestament(0, NEW_TESTAMENT_START)} className="text-xs font-bold uppercase tracking-wider px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-indigo-600 transition-colors">Old Testament</button>
+          <button onClick={() => toggleTestament(NEW_TESTAMENT_START, BOOKS.length)} className="text-xs font-bold uppercase tracking-wider px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-indigo-600 transition-colors">New Testament</button>
+          {customBooks.length > 0 && <button onClick={() => setCustomBooks([])} className="text-xs font-bold uppercase tracking-wider px-3 py-1.5 text-slate-400 hover:text-red-500 transition-colors">Clear</button>}
+        </div>
+        <div className="flex flex-wrap gap-1.5 max-h-56 overflow-y-auto">
+          {BOOKS.map((book, i) => (
+            <button
+              key={book.name}
+              onClick={() => toggleBook(i)}
+              className={`text-xs px-2.5 py-1.5 rounded-lg border transition-colors ${customBooks.includes(i) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-300'}`}
+            >
+              {book.name}
+            </button>
+          ))}
+        </div>
+        <button onClick={createCustomPlan} disabled={customBooks.length === 0} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold shadow-lg hover:bg-indigo-700 disabled:opacity-50 transition-all">
+          {customBooks.length === 0 ? "Choose books to read" : `Start ${customBooks.length === 1 ? BOOKS[customBooks[0]].name : `${customBooks.length} books`} in ${customDays} days`}
+        </button>
+      </div>
+    </div>
+  );
+
+  const planView = () => {
+    if (!active || !activePlan) return null;
+    const status = planStatus(activePlan, active);
+    const day = viewDay ?? status.today;
+    const passages = formatReferenceList(activePlan.days[day]);
+    const read = active.completed.includes(day);
+    const progress = (status.done / activePlan.days.length) * 100;
+
+    return (
+      <div className="space-y-4">
+        <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800">
+          <div className="flex justify-between items-start gap-3 mb-2">
+            <div>
+              <h3 className="text-xl md:text-2xl font-serif font-bold text-slate-800 dark:text-indigo-100">{activePlan.name}</h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400">{activePlan.description}</p>
+            </div>
+            <button onClick={leave} className="shrink-0 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 px-2 py-1 transition-colors">Leave</button>
+          </div>
+          <div className="flex items-center gap-3 mb-2 text-xs font-bold uppercase tracking-wider text-slate-400">
+            <span>{status.done}/{activePlan.days.length} days read</span>
+            {!status.finished && <><span>·</span><span>Today is day {status.today + 1}</span></>}
+          </div>
+          <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+          {status.finished && <p className="mt-4 text-sm font-bold text-emerald-600 dark:text-emerald-400">Plan complete. Well done, good and faithful reader!</p>}
+        </div>
+
+        {status.missed.length > 0 && (
+          <div className="p-4 rounded-2xl border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-900/20">
+            <p className="text-sm font-bold text-amber-800 dark:text-amber-200 mb-1">
+              You're {status.missed.length} {status.missed.length === 1 ? 'day' : 'days'} behind.
+            </p>
+            <p className="text-sm text-amber-700 dark:text-amber-300 mb-3">Read the missed days to catch up, or move the schedule so your next unread day is today.</p>
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {status.missed.map(d => (
+                <button key={d} onClick={() => setViewDay(d)} className={`text-xs font-bold px-2.5 py-1.5 rounded-lg transition-colors ${d === day ? 'bg-amber-600 text-white' : 'bg-white dark:bg-slate-900 text-amber-700 dark:text-amber-300 hover:bg-amber-100'}`}>
+                  Day {d + 1}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => { setProgress(rescheduleFromNextUnread(active, activePlan)); setViewDay(null); }} className="text-xs font-bold uppercase tracking-wider text-white bg-amber-600 hover:bg-amber-700 px-3 py-2 rounded-lg transition-colors">
+              Start again from day {(status.nextUnread ?? 0) + 1} today
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800">
+          <div className="flex items-center justify-between mb-4">
+            <button onClick={() => setViewDay(Math.max(0, day - 1))} disabled={day === 0} aria-label="Previous day" className="p-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30 transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+            </button>
+            <div className="text-center">
+              <p className="text-xs font-bold uppercase tracking-wider text-indigo-500">Day {day + 1}{day === status.today ? ' · Today' : ''}</p>
+              <p className="text-xs text-slate-400">{formatDate(addDays(active.startDate, day))}</p>
+            </div>
+            <button onClick={() => setViewDay(Math.min(activePlan.days.length - 1, day + 1))} disabled={day === activePlan.days.length - 1} aria-label="Next day" className="p-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30 transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
+          </div>
+
+          <ul className="space-y-2 mb-4">
+            {activePlan.days[day].map(ref => {
+              const label = formatReferenceList([ref]);
+              return <li key={label} className="font-serif text-lg font-bold text-slate-800 dark:text-slate-100"><ScriptureText text={label} /></li>;
+            })}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider cursor-pointer px-3 py-2 rounded-lg border transition-colors ${read ? 'border-emerald-200 dark:border-emerald-900 text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20' : 'border-slate-200 dark:border-slate-700 text-slate-500'}`}>
+              <input type="checkbox" checked={read} onChange={() => setProgress(toggleDay(active, day))} className="w-4 h-4 text-emerald-600 rounded focus:ring-emerald-500" />
+              {read ? "Read" : "Mark as read"}
+            </label>
+            <button onClick={() => reflect(passages)} disabled={reflecting || isOffline} className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 px-3 py-2 rounded-lg disabled:opacity-50 transition-colors">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" /></svg>
+              {reflecting ? "Reflecting..." : "Reflection"}
+            </button>
+          </div>
+
+          {reflection && reflection.key === passages && (
+            <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="prose prose-indigo dark:prose-invert max-w-none font-serif text-slate-700 dark:text-slate-300">
+                {cleanMarkdown(reflection.text).split('\n').map((line, i) => {
+                  if (line.trim() === '') return <br key={i} />;
+                  return <p key={i} className="mb-3 leading-relaxed"><ScriptureText text={line} language={language} /></p>;
+                })}
+              </div>
+              {!isOffline && (
+                <button onClick={() => reflect(passages, true)} disabled={reflecting} className="mt-2 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 disabled:opacity-50 transition-colors">Write another</button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const showCatalog = browsing || !active || !activePlan;
+
+  return (
+    <div className="flex flex-col min-h-full w-full max-w-screen-md mx-auto p-3 md:p-6">
+      <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-white mb-4 md:mb-6 text-center">Reading Plans</h2>
+
+      {plans.progress.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+          {plans.progress.map(p => {
+            const plan = findPlan(p.planId, plans.custom);
+            if (!plan) return null;
+            const selected = !browsing && p.planId === activeId;
+            return (
+              <button key={p.planId} onClick={() => { setActiveId(p.planId); setBrowsing(false); setViewDay(null); }} className={`shrink-0 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${selected ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 hover:text-indigo-600'}`}>
+                {plan.name}
+              </button>
+            );
+          })}
+          <button onClick={() => setBrowsing(true)} className={`shrink-0 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${browsing ? 'bg-indigo-600 text-white' : 'text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20'}`}>
+            + New Plan
+          </button>
+        </div>
+      )}
+
+      {showCatalog ? catalog : planView()}
+
+      <div className="mt-6">
+        <ReminderSettings />
+      </div>
+    </div>
+  );
+};
+
+export default ReadingPlans;
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Recording, RECORDINGS_EVENT, getRecordings, deleteRecording } from '../services/recordings';
+import { downloadFile, dateStamp, formatDuration, formatSize } from '../utils/download';
+import ConversationTranscript from './ConversationTranscript';
+
+interface RecordingsListProps { onClose: () => void; }
+
+const recordingTitle = (r: Recording) => r.turns.find(t => t.role === 'user')?.text.trim() || 'Voice consultation';
+
+// Saved Live session recordings: play, download as WAV, read the transcript, delete
+const RecordingsList: React.FC<RecordingsListProps> = ({ onClose }) => {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => getRecordings().then(items => { setRecordings(items); setLoading(false); });
+    load();
+    window.addEventListener(RECORDINGS_EVENT, load);
+    return () => window.removeEventListener(RECORDINGS_EVENT, load);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // One player at a time; its object URL lives only while it is open
+  const open = recordings.find(r => r.id === openId);
+  useEffect(() => {
+    if (!open) return;
+    const url = URL.createObjectURL(open.audio);
+    setAudioUrl(url);
+    return () => { URL.revokeObjectURL(url); setAudioUrl(null); };
+  }, [open]);
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this recording?")) return;
+    try {
+      await deleteRecording(id);
+      if (openId === id) setOpenId(null);
+    } catch (e) {
+      alert("Could not delete the recording.");
+    }
+  };
+
+  const totalSize = recordings.reduce((sum, r) => sum + r.size, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-end md:items-center justify-center animate-in fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Recordings"
+        className="bg-white dark:bg-slate-900 w-full md:max-w-lg max-h-[80vh] overflow-y-auto rounded-t-3xl md:rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-800 p-5 md:p-6 pb-safe animate-in slide-in-from-bottom-8 text-slate-800 dark:text-slate-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h3 className="font-serif font-bold text-lg">Recordings</h3>
+            {recordings.length > 0 && <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{recordings.length} · {formatSize(totalSize)}</span>}
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {!loading && recordings.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No recordings yet. Switch on "Record session" before starting a consultation.</p>
+        )}
+
+        <div className="space-y-3">
+          {recordings.map(r => (
+            <div key={r.id} className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800">
+              <button onClick={() => setOpenId(openId === r.id ? null : r.id)} className="w-full text-left">
+                <p className="font-serif font-bold line-clamp-2">{recordingTitle(r)}</p>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mt-1">
+                  {new Date(r.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} · {formatDuration(r.duration)} · {formatSize(r.size)}
+                </p>
+              </button>
+
+              {openId === r.id && (
+                <div className="mt-3 space-y-3">
+                  {audioUrl && <audio src={audioUrl} controls className="w-full" />}
+                  <div className="flex gap-2">
+                    <button onClick={() => downloadFile(`faithwalk-session-${dateStamp(r.createdAt)}.wav`, r.audio, 'audio/wav')} className="flex-1 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 px-3 py-2 rounded-lg transition-colors">
+                      Download WAV
+                    </button>
+                    <button onClick={() => remove(r.id)} className="text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-500 px-3 py-2 rounded-lg transition-colors">
+                      Delete
+                    </button>
+                  </div>
+                  {r.turns.length > 0 && (
+                    <ConversationTranscript conversation={{ turns: r.turns, startedAt: r.createdAt, endedAt: r.createdAt + r.duration * 1000 }} language={r.language} />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsList;
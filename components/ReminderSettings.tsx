@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import { REMINDERS_EVENT, loadReminderSettings, saveReminderSettings, requestReminderPermission, reminderSupport, ReminderSettings as Settings } from '../services/notifications';
+import { verseOfTheDay } from '../utils/verseOfTheDay';
+
+// Opt-in daily notifications for the verse of the day and reading plans
+const ReminderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(loadReminderSettings);
+  const [blocked, setBlocked] = useState(false);
+  const support = reminderSupport();
+  const verse = verseOfTheDay();
+
+  // Shown in both Plans and Settings; keep the two in step
+  useEffect(() => {
+    const load = () => setSettings(loadReminderSettings());
+    window.addEventListener(REMINDERS_EVENT, load);
+    return () => window.removeEventListener(REMINDERS_EVENT, load);
+  }, []);
+
+  const update = async (patch: Partial<Settings>) => {
+    const next = { ...settings, ...patch };
+    // Ask for permission only when a reminder is switched on
+    if ((patch.verseOfTheDay || patch.planReminders) && !(await requestReminderPermission())) {
+      setBlocked(true);
+      return;
+    }
+    setBlocked(false);
+    setSettings(next);
+    saveReminderSettings(next);
+  };
+
+  const Toggle = ({ label, detail, checked, onChange }: { label: string; detail: string; checked: boolean; onChange: (v: boolean) => void }) => (
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} disabled={support === 'unsupported'} className="mt-1 w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500" />
+      <span>
+        <span className="block text-sm font-bold text-slate-700 dark:text-slate-200">{label}</span>
+        <span className="block text-xs text-slate-500 dark:text-slate-400">{detail}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-serif font-bold text-lg text-slate-800 dark:text-slate-100">Daily Reminders</h3>
+        <input
+          type="time"
+          value={settings.time}
+          onChange={(e) => e.target.value && update({ time: e.target.value })}
+          disabled={support === 'unsupported'}
+          aria-label="Reminder time"
+          className="p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+      </div>
+      <Toggle
+        label="Verse of the Day"
+        detail={`Today: ${verse.reference}. Works offline.`}
+        checked={settings.verseOfTheDay}
+        onChange={(v) => update({ verseOfTheDay: v })}
+      />
+      <Toggle
+        label="Reading Plan Reminders"
+        detail="The day's passages for each plan you follow, until they are marked as read."
+        checked={settings.planReminders}
+        onChange={(v) => update({ planReminders: v })}
+      />
+      {support === 'unsupported' && <p className="text-xs text-slate-400">This browser does not support notifications.</p>}
+      {blocked && <p className="text-xs text-red-500">Notifications are blocked. Allow them for this site in your browser or phone settings.</p>}
+      {support === 'web' && (settings.verseOfTheDay || settings.planReminders) && (
+        <p className="text-xs text-slate-400">Some browsers only deliver reminders on time when the app is installed to the home screen. Otherwise they appear the next time it is opened.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo, useContext } from 'react';
+import { createPortal } from 'react-dom';
+import { ReferenceMatch, findReferences, formatReferenceList, withinBook } from '../utils/scriptureRef';
+import { ensureBible, isBibleLoaded, lookupReference, versesToPassage, TRANSLATION } from '../services/bible';
+import { addBookmark, removeBookmark, isBookmarked, highlightRanges } from '../services/annotations';
+import { Citation } from '../services/citations';
+import { CitationMark } from './CitationBadge';
+import { AnnotationContext, markClass } from './Annotatable';
+import { BibleResult } from '../types';
+
+interface ScriptureTextProps {
+  text: string;
+  language?: string;
+  // Results of the citation check, keyed by formatted reference
+  citations?: Record<string, Citation>;
+}
+
+// Plain text with every scripture reference turned into a link that opens the passage.
+// Inside an Annotatable result, saved highlights and notes are marked too.
+const ScriptureText: React.FC<ScriptureTextProps> = ({ text, language = '', citations }) => {
+  const [open, setOpen] = useState<ReferenceMatch | null>(null);
+  const annotations = useContext(AnnotationContext);
+  const matches = useMemo(() => findReferences(text, language), [text, language]);
+  const ranges = useMemo(() => annotations ? highlightRanges(text, annotations.annotations) : [], [text, annotations?.annotations]);
+
+  if (matches.length === 0 && ranges.length === 0) return <>{text}</>;
+
+  // Text between links, split around the highlights that fall in it
+  const plain = (from: number, to: number, key: string) => {
+    const out: React.ReactNode[] = [];
+    let pos = from;
+    ranges.forEach((r, i) => {
+      const start = Math.max(r.start, from);
+      const end = Math.min(r.end, to);
+      if (start >= end) return;
+      if (start > pos) out.push(text.slice(pos, start));
+      out.push(
+        <mark key={`${key}-${i}`} title={r.annotation.note || undefined} onClick={(e) => { e.stopPropagation(); annotations!.edit(r.annotation); }} className={markClass(r.annotation)}>
+          {text.slice(start, end)}
+        </mark>
+      );
+      pos = end;
+    });
+    if (pos < to) out.push(text.slice(pos, to));
+    return out;
+  };
+
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  matches.forEach((match, i) => {
+    if (match.start > pos) parts.push(...plain(pos, match.start, `${i}-before`));
+    if (!match.refs.every(withinBook)) {
+      // A chapter the book does not have has nothing to open, so it stays plain text
+      parts.push(...plain(match.start, match.end, `${i}-ref`));
+    } else {
+      const highlight = ranges.find(r => r.start <= match.start && r.end >= match.end);
+      const link = (
+        <button
+          key={i}
+          type="button"
+          onClick={(e) => { e.stopPropagation(); setOpen(match); }}
+          className="inline p-0 font-[inherit] text-indigo-600 dark:text-indigo-400 underline decoration-dotted underline-offset-2 hover:decoration-solid"
+        >
+          {match.text}
+        </button>
+      );
+      parts.push(highlight ? <mark key={i} className={markClass(highlight.annotation)}>{link}</mark> : link);
+    }
+    const citation = citations?.[formatReferenceList(match.refs)];
+    if (citation) parts.push(<CitationMark key={`${i}-check`} citation={citation} />);
+    pos = match.end;
+  });
+  if (pos < text.length) parts.push(...plain(pos, text.length, 'end'));
+
+  return <>{parts}{open && createPortal(<VersePopover match={open} onClose={() => setOpen(null)} />, document.body)}</>;
+};
+
+interface VersePopoverProps {
+  match: ReferenceMatch;
+  onClose: () => void;
+}
+
+const VersePopover: React.FC<VersePopoverProps> = ({ match, onClose }) => {
+  const [passages, setPassages] = useState<BibleResult[] | null>(null);
+  const [error, setError] = useState('');
+  const [bookmarked, setBookmarked] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const reference = formatReferenceList(match.refs);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!navigator.onLine && !isBibleLoaded()) {
+      setError("You're offline and the offline Bible hasn't been downloaded yet.");
+      return;
+    }
+    (async () => {
+      try {
+        await ensureBible();
+        const found = await Promise.all(match.refs.map(async ref => {
+          const verses = await lookupReference(ref);
+          return verses.length > 0 ? versesToPassage(ref, verses) : null;
+        }));
+        if (cancelled) return;
+        const resolved = found.filter((p): p is BibleResult => p !== null);
+        if (resolved.length === 0) setError(`${reference} was not found in the ${TRANSLATION.name}.`);
+        setPassages(resolved);
+      } catch (e) {
+        if (!cancelled) setError("Could not load this passage.");
+      }
+    })();
+    isBookmarked(reference).then(saved => { if (!cancelled) setBookmarked(saved); });
+    return () => { cancelled = true; };
+  }, [reference]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const passageText = (passages || []).map(p => passages!.length > 1 ? `${p.reference} ${p.text}` : p.text).join('\n');
+
+  const copy = () => {
+    navigator.clipboard.writeText(`${reference}\n"${passageText}"`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const toggleBookmark = async () => {
+    try {
+      if (bookmarked) await removeBookmark(reference);
+      else await addBookmark(reference, passageText);
+      setBookmarked(!bookmarked);
+    } catch (e) {
+      alert("Could not update bookmarks.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-end md:items-center justify-center animate-in fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={reference}
+        className="bg-white dark:bg-slate-900 w-full md:max-w-lg max-h-[70vh] overflow-y-auto rounded-t-3xl md:rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-800 p-5 md:p-6 pb-safe animate-in slide-in-from-bottom-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div>
+            <h3 className="font-serif font-bold text-indigo-700 dark:text-indigo-300 text-lg">{reference}</h3>
+            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{TRANSLATION.name}</span>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-slate-500 dark:text-slate-400">{error}</p>}
+        {!error && !passages && <p className="text-sm text-slate-400 animate-pulse">Loading passage...</p>}
+        {passages && passages.map(p => (
+          <div key={p.reference} className="mb-3">
+            {passages.length > 1 && <p className="text-xs font-bold text-slate-500 dark:text-slate-400 mb-1">{p.reference}</p>}
+            <blockquote className="border-l-4 border-indigo-200 dark:border-indigo-800 pl-4 font-serif italic text-slate-800 dark:text-slate-200 leading-relaxed">"{p.text}"</blockquote>
+          </div>
+        ))}
+
+        {passages && passages.length > 0 && (
+          <div className="flex gap-2 mt-4">
+            <button onClick={copy} className="flex-1 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 px-3 py-2 rounded-lg transition-colors">
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button onClick={toggleBookmark} className={`flex-1 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${bookmarked ? 'text-white bg-indigo-600 hover:bg-indigo-700' : 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40'}`}>
+              {bookmarked ? "Bookmarked" : "Bookmark"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptureText;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { planSermonSeries, saveSeriesProgress, triggerSmartAd } from '../services/gemini';
+import { SermonSeries } from '../types';
+import { AUDIENCES } from '../constants';
+import ScriptureText from './ScriptureText';
+
+interface SeriesPlannerProps {
+  language: string;
+  series: SermonSeries | null;
+  onSeriesChange: (series: SermonSeries | null) => void;
+  onOpenWeek: (index: number) => void;
+}
+
+const WEEK_OPTIONS = [3, 4, 5, 6, 8, 10, 12];
+
+const SeriesPlanner: React.FC<SeriesPlannerProps> = ({ language, series, onSeriesChange, onOpenWeek }) => {
+  const [theme, setTheme] = useState('');
+  const [weekCount, setWeekCount] = useState(4);
+  const [audience, setAudience] = useState(AUDIENCES[0]);
+  const [includeDeepContext, setIncludeDeepContext] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const plan = async (skipCache = false) => {
+    const subject = series && skipCache ? series.theme : theme.trim();
+    if (!subject) return;
+    if (skipCache && series?.weeks.some(w => w.sermon) && !confirm("Re-planning replaces this series and the sermons written for it. Continue?")) return;
+    triggerSmartAd();
+    setLoading(true);
+    setError('');
+    try {
+      const options = series && skipCache ? series : { audience, includeDeepContext };
+      const result = await planSermonSeries(subject, series && skipCache ? series.weeks.length : weekCount, language, options, { skipCache });
+      if (result.weeks.length > 0) {
+        onSeriesChange(result);
+      } else if (result.description === "MISSING_KEY" || result.description === "INVALID_KEY") {
+        setError("API Key Missing or Invalid. Please check your environment variables.");
+      } else if (result.description === "KEY_LEAKED") {
+        setError("SECURITY ALERT: Your Google API Key was disabled because it was leaked online. Please generate a new key at aistudio.google.com.");
+      } else if (result.description === "KEY_EXPIRED") {
+        setError("API KEY EXPIRED: Your Google API Key is no longer valid. Please generate a new key at aistudio.google.com.");
+      } else {
+        setError(result.description);
+      }
+    } catch (e: any) {
+      setError("Error planning series. Please check connection.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePreached = (index: number) => {
+    if (!series) return;
+    const next = { ...series, weeks: series.weeks.map((w, i) => i === index ? { ...w, preached: !w.preached } : w) };
+    onSeriesChange(next);
+    saveSeriesProgress(next);
+  };
+
+  if (!series) {
+    return (
+      <div className="bg-white dark:bg-slate-900 p-4 md:p-8 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-800 flex flex-col gap-4 md:gap-6 max-w-2xl mx-auto w-full transition-colors">
+        <label className="block">
+          <span className="block text-sm font-bold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wide">Book or Theme</span>
+          <input
+            type="text"
+            className="w-full p-3 md:p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-base md:text-lg font-serif"
+            placeholder="e.g. Philippians, The Beatitudes, Faith under pressure..."
+            value={theme}
+            onChange={(e) => setTheme(e.target.value)}
+          />
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
+          <label className="block">
+            <span className="block text-sm font-bold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wide">Weeks</span>
+            <select value={weekCount} onChange={(e) => setWeekCount(Number(e.target.value))} className="w-full p-3 md:p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none font-medium">
+              {WEEK_OPTIONS.map(n => <option key={n} value={n}>{n} weeks</option>)}
+            </select>
+          </label>
+          <label className="block md:col-span-2">
+            <span className="block text-sm font-bold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wide">Target Audience</span>
+            <select value={audience} onChange={(e) => setAudience(e.target.value)} className="w-full p-3 md:p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none font-medium">
+              {AUDIENCES.map((a) => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={includeDeepContext} onChange={(e) => setIncludeDeepContext(e.target.checked)} className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500" />
+          <span className="text-sm font-bold text-indigo-900 dark:text-indigo-100">Deep Theology Mode <span className="font-normal text-indigo-700/70 dark:text-indigo-300/70">for every week</span></span>
+        </label>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <button onClick={() => plan()} disabled={loading || !theme.trim()} className="w-full mt-2 bg-indigo-600 text-white py-3 md:py-4 rounded-xl font-bold text-lg shadow-lg hover:bg-indigo-700 hover:-translate-y-0.5 disabled:opacity-50 transition-all">
+          {loading ? "Planning Series..." : "Plan Series"}
+        </button>
+      </div>
+    );
+  }
+
+  const written = series.weeks.filter(w => w.sermon).length;
+  const preached = series.weeks.filter(w => w.preached).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 md:p-8 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800 max-w-3xl mx-auto w-full animate-in fade-in slide-in-from-bottom-8 transition-colors">
+      <div className="flex justify-between items-center mb-6 border-b border-slate-100 dark:border-slate-800 pb-4">
+        <button onClick={() => onSeriesChange(null)} className="text-sm font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-2 uppercase tracking-wider transition-colors">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg> New Series
+        </button>
+        <button onClick={() => plan(true)} disabled={loading} className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg disabled:opacity-50 transition-colors">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg> {loading ? "Re-planning..." : "Re-plan"}
+        </button>
+      </div>
+
+      <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-indigo-100 mb-2">{series.title}</h2>
+      <p className="text-slate-500 dark:text-slate-400 font-serif mb-4">{series.description}</p>
+      <div className="flex items-center gap-3 mb-2 text-xs font-bold uppercase tracking-wider text-slate-400">
+        <span>{written}/{series.weeks.length} written</span>
+        <span>·</span>
+        <span>{preached}/{series.weeks.length} preached</span>
+      </div>
+      <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-6">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(written / series.weeks.length) * 100}%` }}></div>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+      <ol className="space-y-3">
+        {series.weeks.map((week, i) => (
+          <li key={i} className={`p-4 rounded-2xl border transition-colors ${week.preached ? 'border-emerald-100 dark:border-emerald-900 bg-emerald-50/40 dark:bg-emerald-900/10' : 'border-slate-100 dark:border-slate-800'}`}>
+            <div className="flex items-start gap-3">
+              <span className="shrink-0 w-8 h-8 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300 font-bold text-sm flex items-center justify-center">{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-serif font-bold text-slate-800 dark:text-slate-100">{week.title}</p>
+                <p className="text-sm font-semibold text-indigo-600 dark:text-indigo-400"><ScriptureText text={week.mainText} language={language} /></p>
+                <p className="text-sm text-slate-500 dark:text-slate-400 font-serif mt-1"><ScriptureText text={week.bigIdea} language={language} /></p>
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <button onClick={() => onOpenWeek(i)} className={`text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${week.sermon ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100' : 'text-white bg-indigo-600 hover:bg-indigo-700'}`}>
+                    {week.sermon ? "Open Sermon" : "Write Sermon"}
+                  </button>
+                  <label className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-400 cursor-pointer px-2">
+                    <input type="checkbox" checked={!!week.preached} onChange={() => togglePreached(i)} className="w-4 h-4 text-emerald-600 rounded focus:ring-emerald-500" />
+                    Preached
+                  </label>
+                </div>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SeriesPlanner;
@@ -1,48 +1,243 @@
-import React, { useState, useRef } from 'react';
-import { generateSermon, speakText, cleanMarkdown, triggerSmartAd } from '../services/gemini';
+import React, { useState, useRef, useEffect } from 'react';
+import { streamSermon, reviseSermonSection, saveSeriesProgress, sermonCacheOptions, cleanMarkdown, triggerSmartAd, SectionAction, SermonOptions } from '../services/gemini';
+import { saveVersion, buildCacheKey } from '../services/cache';
+import { NarrationSource } from '../services/audioLibrary';
 import LoadingScreen from './LoadingScreen';
+import ScriptureText from './ScriptureText';
+import Annotatable from './Annotatable';
+import CitationBadge from './CitationBadge';
+import { verifySermon, CitationReport } from '../services/citations';
+import { AUDIENCES } from '../constants';
+import { loadPreferences } from '../services/preferences';
+import SermonEditor from './SermonEditor';
+import SeriesPlanner from './SeriesPlanner';
+import NarrationPlayer from './NarrationPlayer';
+import { SermonSeries, SeriesWeek } from '../types';
+import { sermonToDocx, sermonToHtml, getSermonTitle } from '../utils/sermonExport';
+import { downloadFile, slugify } from '../utils/download';
+import { NarrationChunk, isReading } from '../utils/narration';
+import { SermonOutline, SectionKey, parseSermonOutline, outlineToMarkdown, getSection, updateSection, sectionLabel } from '../utils/sermonOutline';
 
 interface SermonBuilderProps { language: string; }
 
-const AUDIENCES = [
-  "General Church Congregation", "Youth & Teens", "Kids / Sunday School", "New Believers",
-  "Mature Believers / Leaders", "Evangelistic / Non-Believers", "Women's Ministry", "Men's Ministry"
-];
+interface SermonRequest { topic: string; language: string; options: SermonOptions; }
+
+// A series week is written from its main text and title, with the series arc as context
+const weekRequest = (series: SermonSeries, index: number): SermonRequest => {
+  const week = series.weeks[index];
+  return {
+    topic: `${week.mainText} — ${week.title}`,
+    language: series.language,
+    options: {
+      audience: series.audience,
+      includeDeepContext: series.includeDeepContext,
+      series: { title: series.title, week: index + 1, weeks: series.weeks.length, bigIdea: week.bigIdea },
+    },
+  };
+};
 
 const SermonBuilder: React.FC<SermonBuilderProps> = ({ language }) => {
   const [topic, setTopic] = useState('');
-  const [audience, setAudience] = useState(AUDIENCES[0]);
+  const [audience, setAudience] = useState(() => loadPreferences().audience);
   const [includeDeepContext, setIncludeDeepContext] = useState(false);
   const [sermon, setSermon] = useState('');
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const [stopped, setStopped] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [listening, setListening] = useState(false);
   
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [narrating, setNarrating] = useState(false);
+  const [reading, setReading] = useState<NarrationChunk | null>(null);
 
-  const handleBuild = async () => {
-    if (!topic.trim()) return;
+  // Section editor: edits live in the outline until saved back as a new version
+  const [outline, setOutline] = useState<SermonOutline | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [busySection, setBusySection] = useState<SectionKey | null>(null);
+  const [version, setVersion] = useState<number | null>(null);
+  const [savingVersion, setSavingVersion] = useState(false);
+
+  // Series mode: the plan, and which week (if any) the sermon view is showing
+  const [mode, setMode] = useState<'single' | 'series'>('single');
+  const [series, setSeries] = useState<SermonSeries | null>(null);
+  const [activeWeek, setActiveWeek] = useState<number | null>(null);
+  // What the sermon on screen was generated from, for Regenerate, section rewrites and versions
+  const requestRef = useRef<SermonRequest | null>(null);
+
+  // Citation check of the finished sermon against the offline Bible
+  const [citations, setCitations] = useState<CitationReport | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setCitations(null);
+    if (!sermon || streaming || failed) return;
+    let cancelled = false;
+    setChecking(true);
+    verifySermon(sermon, requestRef.current?.language || language)
+      .then(report => { if (!cancelled) setCitations(report); })
+      .catch(e => console.warn("Citation check failed", e))
+      .finally(() => { if (!cancelled) setChecking(false); });
+    return () => { cancelled = true; setChecking(false); };
+  }, [sermon, streaming, failed]);
+
+  const updateWeek = (index: number, patch: Partial<SeriesWeek>) => {
+    if (!series) return;
+    const next = { ...series, weeks: series.weeks.map((w, i) => i === index ? { ...w, ...patch } : w) };
+    setSeries(next);
+    saveSeriesProgress(next);
+  };
+
+  const runBuild = async (request: SermonRequest, skipCache: boolean, onDone?: (sermon: string) => void) => {
     triggerSmartAd();
+    requestRef.current = request;
+    // A build still streaming is superseded, so stop paying for it
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
-    setAudioUrl(null);
-    setIsPlaying(false);
+    setStreaming(true);
+    setStopped(false);
+    setFailed(false);
+    setOutline(null);
+    setVersion(null);
+    setNarrating(false);
     try {
-      const result = await generateSermon(topic + ` (Write in ${language})`, { audience, includeDeepContext });
+      const result = await streamSermon(request.topic, request.language, request.options, (partial) => {
+        if (abortRef.current !== controller) return;
+        setLoading(false);
+        setSermon(partial);
+      }, { signal: controller.signal, skipCache });
+      if (abortRef.current !== controller) return;
       if (result === "MISSING_KEY" || result === "INVALID_KEY") {
         setSermon("API Key Missing or Invalid. Please check your environment variables.");
+        setFailed(true);
       } else if (result === "KEY_LEAKED") {
         setSermon("SECURITY ALERT: Your Google API Key was disabled because it was leaked online. Please generate a new key at aistudio.google.com.");
+        setFailed(true);
       } else if (result === "KEY_EXPIRED") {
         setSermon("API KEY EXPIRED: Your Google API Key is no longer valid. Please generate a new key at aistudio.google.com.");
+        setFailed(true);
       } else {
         setSermon(result);
+        setFailed(result.startsWith('Error:'));
+        if (!result.startsWith('Error:') && !controller.signal.aborted) onDone?.(result);
       }
     } catch (e: any) {
+      if (abortRef.current !== controller) return;
       setSermon("Error generating sermon. Please check connection.");
+      setFailed(true);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreaming(false);
+      }
+    }
+  };
+
+  const handleBuild = () => {
+    if (!topic.trim()) return;
+    setActiveWeek(null);
+    runBuild({ topic: topic.trim(), language, options: { audience, includeDeepContext } }, false);
+  };
+
+  const regenerate = () => {
+    const request = requestRef.current;
+    if (!request) return;
+    const week = activeWeek;
+    runBuild(request, true, week !== null ? (text) => updateWeek(week, { sermon: text }) : undefined);
+  };
+
+  const openWeek = (index: number) => {
+    if (!series) return;
+    const request = weekRequest(series, index);
+    setActiveWeek(index);
+    const written = series.weeks[index].sermon;
+    if (!written) {
+      runBuild(request, false, (text) => updateWeek(index, { sermon: text }));
+      return;
+    }
+    requestRef.current = request;
+    setSermon(written);
+    setStopped(false);
+    setFailed(false);
+    setOutline(null);
+    setVersion(null);
+    setNarrating(false);
+  };
+
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+    setStopped(true);
+  };
+
+  const startOver = () => {
+    if (outline && dirty && !confirm("Discard your changes to this sermon?")) return;
+    // Discard any sermon still streaming in so it cannot repopulate the view
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStreaming(false);
+    setLoading(false);
+    setSermon('');
+    setOutline(null);
+    setVersion(null);
+    setActiveWeek(null);
+  };
+
+  const startEditing = () => {
+    setOutline(parseSermonOutline(sermon));
+    setDirty(false);
+    setNarrating(false);
+  };
+
+  const cancelEditing = () => {
+    if (dirty && !confirm("Discard your changes to this sermon?")) return;
+    setOutline(null);
+  };
+
+  const editOutline = (next: SermonOutline) => {
+    setOutline(next);
+    setDirty(true);
+  };
+
+  const reviseSection = async (key: SectionKey, action: SectionAction) => {
+    if (!outline) return;
+    setBusySection(key);
+    try {
+      const result = await reviseSermonSection(
+        outlineToMarkdown(outline), sectionLabel(outline, key), getSection(outline, key).body,
+        action, requestRef.current?.language || language, requestRef.current?.options || { audience, includeDeepContext }
+      );
+      if (result === "MISSING_KEY" || result === "INVALID_KEY") alert("API Key Missing or Invalid.");
+      else if (result === "KEY_LEAKED") alert("Cannot rewrite: API Key Leaked/Revoked.");
+      else if (result === "KEY_EXPIRED") alert("Cannot rewrite: API Key Expired.");
+      else if (result.startsWith('Error:') || !result) alert(result || "The model returned an empty section.");
+      else {
+        // The user may have kept typing elsewhere while this section was rewritten
+        setOutline(prev => prev && updateSection(prev, key, result));
+        setDirty(true);
+      }
+    } finally {
+      setBusySection(null);
+    }
+  };
+
+  const saveEdits = async () => {
+    const request = requestRef.current;
+    if (!outline || !request) return;
+    const markdown = outlineToMarkdown(outline);
+    setSavingVersion(true);
+    try {
+      const saved = await saveVersion('SERMON', request.topic, markdown, request.language, { ...sermonCacheOptions(request.options), ...(version ? { version } : {}) });
+      if (activeWeek !== null) updateWeek(activeWeek, { sermon: markdown });
+      setVersion(saved);
+      setSermon(markdown);
+      setNarrating(false);
+      setOutline(null);
+      setDirty(false);
     } finally {
-      setLoading(false);
+      setSavingVersion(false);
     }
   };
 
@@ -61,35 +256,62 @@ const SermonBuilder: React.FC<SermonBuilderProps> = ({ language }) => {
     recognition.start();
   };
 
-  const generateAudio = async () => {
-    if (!sermon) return;
-    if (audioUrl && audioRef.current) { audioRef.current.play(); return; }
-    setIsAudioLoading(true);
-    try {
-      const url = await speakText(sermon);
-      setAudioUrl(url);
-    } catch (e: any) { 
-        if (e.message === "KEY_LEAKED") alert("Cannot generate audio: API Key Leaked/Revoked.");
-        else if (e.message === "KEY_EXPIRED") alert("Cannot generate audio: API Key Expired.");
-        else alert(e.message); 
-    } finally { setIsAudioLoading(false); }
+  // The History entry the sermon on screen was saved as, edited versions included
+  const narrationSource = (): NarrationSource | undefined => {
+    const request = requestRef.current;
+    if (!request) return undefined;
+    const options = { ...sermonCacheOptions(request.options), ...(version ? { version } : {}) };
+    return { id: buildCacheKey('SERMON', request.topic, request.language, options), tool: 'SERMON', title: request.topic, language: request.language };
   };
 
-  const togglePlayback = () => { if (audioRef.current) isPlaying ? audioRef.current.pause() : audioRef.current.play(); };
+  const [showExport, setShowExport] = useState(false);
+
+  const exportSermon = (format: 'docx' | 'pdf' | 'md') => {
+    setShowExport(false);
+    const name = slugify(getSermonTitle(sermon));
+    if (format === 'docx') {
+      downloadFile(`${name}.docx`, sermonToDocx(sermon), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    } else if (format === 'md') {
+      downloadFile(`${name}.md`, sermon, 'text/markdown');
+    } else {
+      const html = sermonToHtml(sermon, requestRef.current?.language ?? language);
+      // Native webviews often block popups; fall back to saving the page
+      const win = window.open('', '_blank');
+      if (!win) {
+        downloadFile(`${name}.html`, html, 'text/html');
+        return;
+      }
+      win.document.write(html);
+      win.document.close();
+      win.focus();
+      setTimeout(() => win.print(), 300);
+    }
+  };
 
   return (
     <div className="flex flex-col min-h-full relative w-full max-w-screen-xl mx-auto">
-      {loading && <LoadingScreen />}
+      {loading && !sermon && <LoadingScreen />}
 
       <div className="p-3 md:p-6 w-full flex-1 flex flex-col">
         {!sermon && (
           <div className="text-center mb-6 pt-4 shrink-0 animate-in fade-in slide-in-from-top-4">
             <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-indigo-100 mb-2">Pulpit AI</h2>
             <p className="text-slate-500 dark:text-slate-400 text-sm md:text-base">Homiletics & Sermon Preparation</p>
+            <div className="inline-flex mt-4 p-1 bg-slate-100 dark:bg-slate-800 rounded-xl">
+              {(['single', 'series'] as const).map(m => (
+                <button key={m} onClick={() => setMode(m)} className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${mode === m ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-indigo-600'}`}>
+                  {m === 'single' ? 'Single Sermon' : 'Sermon Series'}
+                </button>
+              ))}
+            </div>
           </div>
         )}
 
-        {!sermon && (
+        {!sermon && mode === 'series' && (
+          <SeriesPlanner language={language} series={series} onSeriesChange={setSeries} onOpenWeek={openWeek} />
+        )}
+
+        {!sermon && mode === 'single' && (
           <div className="bg-white dark:bg-slate-900 p-4 md:p-8 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-800 flex flex-col gap-4 md:gap-6 max-w-2xl mx-auto w-full transition-colors">
             
             <label className="w-full relative group">
@@ -133,28 +355,70 @@ const SermonBuilder: React.FC<SermonBuilderProps> = ({ language }) => {
           {sermon && (
             <div className="bg-white dark:bg-slate-900 p-4 md:p-12 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 relative transition-colors">
               <div className="flex justify-between items-center mb-8 border-b border-slate-100 dark:border-slate-800 pb-4 sticky top-0 bg-white/95 dark:bg-slate-900/95 backdrop-blur z-10">
-                   <button onClick={() => setSermon('')} className="text-sm font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-2 uppercase tracking-wider transition-colors">
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg> Start Over
+                   <button onClick={startOver} className="text-sm font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-2 uppercase tracking-wider transition-colors">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg> {activeWeek !== null ? 'Back to Series' : 'Start Over'}
                   </button>
                    <div className="flex items-center gap-3">
-                       {audioUrl && <audio ref={audioRef} src={audioUrl} autoPlay onEnded={() => setIsPlaying(false)} onPause={() => setIsPlaying(false)} onPlay={() => setIsPlaying(true)} />}
-                       {!audioUrl ? (
-                          <button onClick={generateAudio} disabled={isAudioLoading} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg transition-colors border border-indigo-100 dark:border-indigo-900">
-                             {isAudioLoading ? "Preparing..." : "Listen to Sermon"}
+                       {stopped && <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Stopped early</span>}
+                       {!outline && !streaming && !failed && <CitationBadge report={citations} checking={checking} />}
+                       {version && !outline && <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400">Saved as v{version}</span>}
+                       {outline ? <>
+                          {dirty && <span className="text-[10px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-400">Unsaved changes</span>}
+                          <button onClick={cancelEditing} disabled={savingVersion} className="text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-slate-600 px-3 py-2 rounded-lg transition-colors">Cancel</button>
+                          <button onClick={saveEdits} disabled={!dirty || busySection !== null || savingVersion} className="text-xs font-bold uppercase tracking-wider text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 px-3 py-2 rounded-lg transition-colors">
+                            {savingVersion ? "Saving..." : "Save Version"}
+                          </button>
+                       </> : streaming ? (
+                          <button onClick={stopStreaming} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 px-3 py-2 rounded-lg transition-colors border border-red-100 dark:border-red-900">
+                             <span className="w-2 h-2 bg-red-500 rounded-sm"></span> Stop
                           </button>
-                       ) : (
-                          <button onClick={togglePlayback} className="p-2 text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 rounded-md transition-all flex items-center gap-2 px-3 font-bold text-xs">
-                            {isPlaying ? "PAUSE AUDIO" : "RESUME AUDIO"}
+                       ) : <>
+                       {!failed && (
+                         <button onClick={startEditing} className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg transition-colors">
+                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg> Edit
+                         </button>
+                       )}
+                       <div className="relative">
+                         <button onClick={() => setShowExport(!showExport)} className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg transition-colors">
+                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg> Export
+                         </button>
+                         {showExport && (
+                           <div className="absolute right-0 top-full mt-1 w-48 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-100 dark:border-slate-700 py-1 z-20 animate-in fade-in slide-in-from-top-2">
+                             <button onClick={() => exportSermon('docx')} className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-indigo-50 dark:hover:bg-slate-700">Word document (.docx)</button>
+                             <button onClick={() => exportSermon('pdf')} className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-indigo-50 dark:hover:bg-slate-700">Print / Save as PDF</button>
+                             <button onClick={() => exportSermon('md')} className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-indigo-50 dark:hover:bg-slate-700">Markdown (.md)</button>
+                           </div>
+                         )}
+                       </div>
+                       <button onClick={regenerate} title="Regenerate (skip saved sermon)" className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg transition-colors">
+                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg> Regenerate
+                       </button>
+                       {!narrating && !failed && (
+                          <button onClick={() => setNarrating(true)} className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-3 py-2 rounded-lg transition-colors border border-indigo-100 dark:border-indigo-900">
+                             Listen to Sermon
                           </button>
                        )}
+                       </>}
                    </div>
               </div>
+              {narrating && !streaming && !outline && (
+                <NarrationPlayer paragraphs={cleanMarkdown(sermon).split('\n')} source={narrationSource()} onSection={setReading} onClose={() => setNarrating(false)} />
+              )}
+              {series && activeWeek !== null && (
+                <p className="text-xs font-bold uppercase tracking-wider text-indigo-500 mb-4">Week {activeWeek + 1} of {series.weeks.length} · {series.title}</p>
+              )}
+              {outline ? (
+                <SermonEditor outline={outline} busySection={busySection} onChange={editOutline} onRevise={reviseSection} />
+              ) : (
+              <Annotatable source="SERMON" title={requestRef.current?.topic || topic} disabled={streaming}>
               <div className="prose prose-indigo dark:prose-invert prose-base md:prose-lg max-w-none font-serif text-slate-700 dark:text-slate-300">
                 {cleanMarkdown(sermon).split('\n').map((line, i) => {
                     if (line.trim() === '') return <br key={i} />;
-                    return <p key={i} className="mb-4 leading-8">{line}</p>;
+                    return <p key={i} className={`mb-4 leading-8 transition-colors ${isReading(reading, i) ? 'bg-indigo-50 dark:bg-indigo-900/30 rounded-lg' : ''}`}><ScriptureText text={line} language={requestRef.current?.language || language} citations={citations?.citations} /></p>;
                 })}
               </div>
+              </Annotatable>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { SectionAction } from '../services/gemini';
+import { SermonOutline, SectionKey, POINT_PARTS, getSection, updateSection } from '../utils/sermonOutline';
+
+interface SermonEditorProps {
+  outline: SermonOutline;
+  busySection: SectionKey | null;
+  onChange: (outline: SermonOutline) => void;
+  onRevise: (key: SectionKey, action: SectionAction) => void;
+}
+
+const ACTIONS: { action: SectionAction; label: string }[] = [
+  { action: 'regenerate', label: 'Regenerate' },
+  { action: 'expand', label: 'Expand' },
+  { action: 'shorten', label: 'Shorten' },
+];
+
+const SermonEditor: React.FC<SermonEditorProps> = ({ outline, busySection, onChange, onRevise }) => {
+  const renderSection = (key: SectionKey, label: string) => {
+    const busy = busySection === key;
+    const body = getSection(outline, key).body;
+    return (
+      <div key={key} className={`rounded-2xl border p-4 transition-colors ${busy ? 'border-indigo-300 dark:border-indigo-700 bg-indigo-50/50 dark:bg-indigo-900/10' : 'border-slate-100 dark:border-slate-800'}`}>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-400">{label}</span>
+          <div className="flex gap-1">
+            {ACTIONS.map(({ action, label: actionLabel }) => (
+              <button
+                key={action}
+                onClick={() => onRevise(key, action)}
+                disabled={busySection !== null}
+                className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded-md disabled:opacity-40 transition-colors"
+              >
+                {actionLabel}
+              </button>
+            ))}
+          </div>
+        </div>
+        {busy ? (
+          <div className="flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-300 py-6 justify-center">
+            <div className="w-4 h-4 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+            Rewriting {label.toLowerCase()}...
+          </div>
+        ) : (
+          <textarea
+            value={body}
+            onChange={(e) => onChange(updateSection(outline, key, e.target.value))}
+            rows={Math.min(16, Math.max(3, body.split('\n').length + 1))}
+            className="w-full p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none font-serif text-base leading-7 resize-y"
+          />
+        )}
+      </div>
+    );
+  };
+
+  const updatePointHeading = (index: number, heading: string) =>
+    onChange({ ...outline, points: outline.points.map((p, i) => i === index ? { ...p, heading } : p) });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <input
+        value={outline.title}
+        onChange={(e) => onChange({ ...outline, title: e.target.value })}
+        placeholder="Sermon title"
+        className="w-full p-3 text-2xl md:text-3xl font-serif font-bold bg-transparent border-b border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white focus:border-indigo-500 outline-none"
+      />
+      {renderSection('prayer', outline.prayer.heading)}
+      {renderSection('intro', outline.intro.heading)}
+      {outline.points.map((point, i) => (
+        <div key={i} className="flex flex-col gap-3 pl-3 border-l-4 border-indigo-100 dark:border-indigo-900">
+          <input
+            value={point.heading}
+            onChange={(e) => updatePointHeading(i, e.target.value)}
+            className="w-full p-2 text-lg font-serif font-bold bg-transparent border-b border-slate-100 dark:border-slate-800 text-slate-800 dark:text-indigo-100 focus:border-indigo-500 outline-none"
+          />
+          {POINT_PARTS.map(part => renderSection(`points.${i}.${part}`, point[part].heading))}
+        </div>
+      ))}
+      {renderSection('conclusion', outline.conclusion.heading)}
+    </div>
+  );
+};
+
+export default SermonEditor;
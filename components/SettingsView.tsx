@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Preferences, ThemePreference, PREFERENCES_EVENT, PLAYBACK_SPEEDS, loadPreferences, savePreferences } from '../services/preferences';
+import { PERSONAS, findPersona } from '../utils/personas';
+import { LANGUAGES, AUDIENCES } from '../constants';
+import VoicePicker from './VoicePicker';
+import ApiKeyPanel from './ApiKeyPanel';
+import ReminderSettings from './ReminderSettings';
+
+const THEMES: { id: ThemePreference; label: string }[] = [
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' },
+  { id: 'system', label: 'Follow system' },
+];
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-800 space-y-4">
+    <h3 className="font-serif font-bold text-lg text-slate-800 dark:text-slate-100">{title}</h3>
+    {children}
+  </div>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const selectClass = "w-full p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const SettingsView: React.FC = () => {
+  const [prefs, setPrefs] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    const load = () => setPrefs(loadPreferences());
+    window.addEventListener(PREFERENCES_EVENT, load);
+    return () => window.removeEventListener(PREFERENCES_EVENT, load);
+  }, []);
+
+  const persona = findPersona(prefs.voices.persona);
+  const updateVoices = (patch: Partial<Preferences['voices']>) => savePreferences({ voices: { ...prefs.voices, ...patch } });
+
+  return (
+    <div className="flex flex-col min-h-full w-full max-w-screen-md mx-auto p-3 md:p-6 space-y-4">
+      <h2 className="text-2xl md:text-3xl font-serif font-bold text-slate-800 dark:text-white mb-2 md:mb-4 text-center">Settings</h2>
+
+      <Section title="General">
+        <div>
+          <span className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-1">Theme</span>
+          <div role="radiogroup" aria-label="Theme" className="flex gap-2">
+            {THEMES.map(t => (
+              <button key={t.id} role="radio" aria-checked={prefs.theme === t.id} onClick={() => savePreferences({ theme: t.id })} className={`flex-1 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors ${prefs.theme === t.id ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 border border-slate-200 dark:border-slate-700 hover:text-indigo-600'}`}>
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <Field label="Language">
+          <select value={prefs.language} onChange={(e) => savePreferences({ language: e.target.value })} className={selectClass}>
+            {LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+          </select>
+        </Field>
+        <Field label="Default sermon audience">
+          <select value={prefs.audience} onChange={(e) => savePreferences({ audience: e.target.value })} className={selectClass}>
+            {AUDIENCES.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </Field>
+      </Section>
+
+      <Section title="Voices">
+        <Field label="Counselor persona">
+          <select value={persona.id} onChange={(e) => updateVoices({ persona: e.target.value, liveVoice: null })} className={selectClass}>
+            {PERSONAS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </Field>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <VoicePicker label="Live voice" value={prefs.voices.liveVoice} defaultVoice={persona.voice} onChange={(liveVoice) => updateVoices({ liveVoice })} />
+          <VoicePicker label="Read-aloud voice" value={prefs.voices.readAloudVoice} onChange={(voice) => voice && updateVoices({ readAloudVoice: voice })} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Field label={`Live volume · ${Math.round(prefs.volume * 100)}%`}>
+            <input type="range" min="0" max="1" step="0.01" value={prefs.volume} onChange={(e) => savePreferences({ volume: parseFloat(e.target.value) })} className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+          </Field>
+          <Field label="Live playback speed">
+            <select value={prefs.playbackSpeed} onChange={(e) => savePreferences({ playbackSpeed: parseFloat(e.target.value) })} className={selectClass}>
+              {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed.toFixed(1)}x</option>)}
+            </select>
+          </Field>
+        </div>
+      </Section>
+
+      <Section title="Gemini API Key">
+        <ApiKeyPanel />
+      </Section>
+
+      <ReminderSettings />
+    </div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,76 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { previewVoice } from '../services/gemini';
+import { VOICES } from '../constants';
+
+interface VoicePickerProps {
+  label: string;
+  value: string | null;
+  onChange: (voice: string | null) => void;
+  // Offered as the empty choice, e.g. the persona's own voice
+  defaultVoice?: string;
+  // The Live view is always dark
+  dark?: boolean;
+}
+
+// A voice select with a spoken sample of the current choice
+const VoicePicker: React.FC<VoicePickerProps> = ({ label, value, onChange, defaultVoice, dark = false }) => {
+  const [previewing, setPreviewing] = useState<'loading' | 'playing' | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const voice = value || defaultVoice || VOICES[0].name;
+
+  useEffect(() => () => { audioRef.current?.pause(); }, []);
+
+  const preview = async () => {
+    if (previewing === 'playing') { audioRef.current?.pause(); setPreviewing(null); return; }
+    setPreviewing('loading');
+    try {
+      const url = await previewVoice(voice);
+      audioRef.current?.pause();
+      const audio = new Audio(url);
+      audio.onended = () => setPreviewing(null);
+      audioRef.current = audio;
+      await audio.play();
+      setPreviewing('playing');
+    } catch (e: any) {
+      setPreviewing(null);
+      if (e.message === "KEY_LEAKED") alert("Cannot preview the voice: API Key Leaked/Revoked.");
+      else if (e.message === "KEY_EXPIRED") alert("Cannot preview the voice: API Key Expired.");
+      else alert(e.message === "MISSING_KEY" ? "API Key Missing." : e.message);
+    }
+  };
+
+  const selectClass = dark
+    ? 'bg-white/5 border-white/10 text-white [&>option]:text-slate-900'
+    : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-800 dark:text-white';
+  const buttonClass = dark
+    ? 'text-slate-200 bg-white/10 hover:bg-white/20'
+    : 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40';
+
+  return (
+    <div className="flex flex-col gap-1 min-w-0">
+      <span className={`text-[10px] font-bold uppercase tracking-wider ${dark ? 'text-slate-400' : 'text-slate-500 dark:text-slate-400'}`}>{label}</span>
+      <div className="flex gap-2">
+        <select
+          aria-label={label}
+          value={value || ''}
+          onChange={(e) => { audioRef.current?.pause(); setPreviewing(null); onChange(e.target.value || null); }}
+          className={`flex-1 min-w-0 text-sm p-2 rounded-lg border focus:ring-2 focus:ring-indigo-500 outline-none ${selectClass}`}
+        >
+          {defaultVoice && <option value="">{defaultVoice} (default)</option>}
+          {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.style}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={preview}
+          disabled={previewing === 'loading'}
+          aria-label={`Preview ${voice}`}
+          className={`shrink-0 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg disabled:opacity-50 transition-colors ${buttonClass}`}
+        >
+          {previewing === 'loading' ? "..." : previewing === 'playing' ? "Stop" : "Preview"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoicePicker;
@@ -0,0 +1,27 @@
+export const LANGUAGES = [
+  { code: 'en-US', name: 'English' }, { code: 'hi-IN', name: 'Hindi' }, { code: 'ta-IN', name: 'Tamil' }, { code: 'te-IN', name: 'Telugu' },
+  { code: 'ml-IN', name: 'Malayalam' }, { code: 'kn-IN', name: 'Kannada' }, { code: 'mr-IN', name: 'Marathi' }, { code: 'gu-IN', name: 'Gujarati' },
+  { code: 'pa-IN', name: 'Punjabi' }, { code: 'bn-IN', name: 'Bengali' }, { code: 'ur-PK', name: 'Urdu' }, { code: 'es-ES', name: 'Spanish' },
+  { code: 'fr-FR', name: 'French' }, { code: 'de-DE', name: 'German' }, { code: 'it-IT', name: 'Italian' }, { code: 'pt-BR', name: 'Portuguese' },
+  { code: 'ru-RU', name: 'Russian' }, { code: 'zh-CN', name: 'Chinese' }, { code: 'ja-JP', name: 'Japanese' }, { code: 'ko-KR', name: 'Korean' },
+  { code: 'ar-SA', name: 'Arabic' }, { code: 'id-ID', name: 'Indonesian' }, { code: 'th-TH', name: 'Thai' }, { code: 'vi-VN', name: 'Vietnamese' }
+];
+
+export const getLanguageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+export const AUDIENCES = [
+  "General Church Congregation", "Youth & Teens", "Kids / Sunday School", "New Believers",
+  "Mature Believers / Leaders", "Evangelistic / Non-Believers", "Women's Ministry", "Men's Ministry"
+];
+
+// Gemini's prebuilt voices, used by both the Live counselor and read-aloud
+export const VOICES = [
+  { name: 'Kore', style: 'Firm' }, { name: 'Fenrir', style: 'Excitable' }, { name: 'Puck', style: 'Upbeat' }, { name: 'Charon', style: 'Informative' },
+  { name: 'Zephyr', style: 'Bright' }, { name: 'Leda', style: 'Youthful' }, { name: 'Orus', style: 'Firm' }, { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' }, { name: 'Autonoe', style: 'Bright' }, { name: 'Enceladus', style: 'Breathy' }, { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' }, { name: 'Algieba', style: 'Smooth' }, { name: 'Despina', style: 'Smooth' }, { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' }, { name: 'Rasalgethi', style: 'Informative' }, { name: 'Laomedeia', style: 'Upbeat' }, { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' }, { name: 'Schedar', style: 'Even' }, { name: 'Gacrux', style: 'Mature' }, { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' }, { name: 'Zubenelgenubi', style: 'Casual' }, { name: 'Vindemiatrix', style: 'Gentle' }, { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' }, { name: 'Sulafat', style: 'Warm' }
+];
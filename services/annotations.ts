@@ -0,0 +1,128 @@
+import { STORES, withStore, requestToPromise } from './db';
+
+// --- Annotations ---
+// Highlights, notes and bookmarks on passages of generated answers, biographies and
+// sermons, plus bookmarked verses from a reference popover. They live in their own
+// store, apart from History, so retention and cache pruning never touch them.
+
+export type AnnotationSource = 'BIBLE' | 'BIO' | 'SERMON' | 'VERSE';
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+export interface Annotation {
+  id: string;
+  source: AnnotationSource;
+  title: string;           // the question, person or sermon topic; the reference for verses
+  text: string;            // the selected passage
+  color: HighlightColor | null;
+  note: string;
+  bookmarked: boolean;
+  collections: string[];   // named collections, e.g. "Easter series"
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const ANNOTATIONS_EVENT = 'faithwalk-annotations-updated';
+
+const dispatchUpdate = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(ANNOTATIONS_EVENT));
+};
+
+export const newAnnotation = (source: AnnotationSource, title: string, text: string): Annotation => {
+  const now = Date.now();
+  return {
+    id: `${source.toLowerCase()}:${now}-${Math.random().toString(36).slice(2, 8)}`,
+    source, title, text,
+    color: null, note: '', bookmarked: false, collections: [],
+    createdAt: now, updatedAt: now,
+  };
+};
+
+// An annotation with nothing left on it (no colour, note or bookmark) is deleted
+export const isEmptyAnnotation = (a: Annotation) => !a.color && !a.note.trim() && !a.bookmarked;
+
+export const saveAnnotation = async (annotation: Annotation) => {
+  if (isEmptyAnnotation(annotation)) return deleteAnnotation(annotation.id);
+  const saved = { ...annotation, collections: annotation.bookmarked ? annotation.collections : [], updatedAt: Date.now() };
+  await withStore(STORES.ANNOTATIONS, 'readwrite', (store) => { store.put(saved); });
+  dispatchUpdate();
+};
+
+export const deleteAnnotation = async (id: string) => {
+  await withStore(STORES.ANNOTATIONS, 'readwrite', (store) => { store.delete(id); });
+  dispatchUpdate();
+};
+
+// Newest first
+export const getAnnotations = async (): Promise<Annotation[]> => {
+  try {
+    const items = await withStore(STORES.ANNOTATIONS, 'readonly', (store) => requestToPromise(store.index('createdAt').getAll())) as Annotation[];
+    return items.reverse();
+  } catch (e) {
+    return [];
+  }
+};
+
+export const getAnnotation = async (id: string): Promise<Annotation | undefined> =>
+  withStore(STORES.ANNOTATIONS, 'readonly', (store) => requestToPromise(store.get(id)));
+
+// The annotations made on one result, for drawing its highlights
+export const getAnnotationsFor = async (source: AnnotationSource, title: string): Promise<Annotation[]> =>
+  (await getAnnotations()).filter(a => a.source === source && a.title === title);
+
+// Every collection name in use, alphabetically
+export const getCollections = async (): Promise<string[]> => {
+  const names = new Set<string>();
+  (await getAnnotations()).forEach(a => a.collections.forEach(c => names.add(c)));
+  return [...names].sort((a, b) => a.localeCompare(b));
+};
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+  annotation: Annotation;
+}
+
+// Where saved selections fall in one line of a result. A selection across paragraphs is
+// matched line by line; where two overlap, the one starting first wins.
+export const highlightRanges = (text: string, annotations: Annotation[]): HighlightRange[] => {
+  const ranges: HighlightRange[] = [];
+  annotations.forEach(annotation => {
+    annotation.text.split('\n').map(line => line.trim()).filter(line => line.length >= 3).forEach(fragment => {
+      const start = text.indexOf(fragment);
+      if (start >= 0) ranges.push({ start, end: start + fragment.length, annotation });
+    });
+  });
+  ranges.sort((a, b) => a.start - b.start);
+  let end = 0;
+  return ranges.filter(r => {
+    if (r.start < end) return false;
+    end = r.end;
+    return true;
+  });
+};
+
+// --- Verse Bookmarks ---
+// A bookmarked verse is an annotation keyed by its reference, so it is saved at most once
+
+const verseId = (reference: string) => `verse:${reference}`;
+
+export const addBookmark = async (reference: string, text: string) => {
+  const existing = await getAnnotation(verseId(reference));
+  await saveAnnotation({ ...(existing || newAnnotation('VERSE', reference, text)), id: verseId(reference), bookmarked: true });
+};
+
+export const removeBookmark = async (reference: string) => {
+  const existing = await getAnnotation(verseId(reference));
+  if (existing) await saveAnnotation({ ...existing, bookmarked: false });
+};
+
+export const isBookmarked = async (reference: string): Promise<boolean> => {
+  try {
+    const item = await getAnnotation(verseId(reference));
+    return !!item?.bookmarked;
+  } catch (e) {
+    return false;
+  }
+};
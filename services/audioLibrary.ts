@@ -0,0 +1,93 @@
+import { STORES, withStore, requestToPromise } from './db';
+import { HistoryTool } from './cache';
+import { NarrationChunk } from '../utils/narration';
+import { joinWavs } from '../utils/audioUtils';
+
+// --- Audio Library ---
+// Narrations of answers, sermons and biographies, so they can be replayed offline. Each
+// one is keyed by the cache key of its History entry and keeps its sections as they
+// were synthesized. When the text on screen still splits into the same sections, the
+// player reads from here instead of synthesizing again.
+
+export const NARRATION_RATE = 24000;
+
+export interface SavedNarration {
+  id: string;              // the History entry's cache key
+  tool: HistoryTool;
+  title: string;
+  language: string;
+  voice: string;
+  createdAt: number;
+  duration: number;        // seconds
+  size: number;            // bytes
+  chunks: NarrationChunk[];
+  sections: Blob[];        // audio/wav, one per chunk
+}
+
+// What a view knows about the History entry it is narrating
+export type NarrationSource = Pick<SavedNarration, 'id' | 'tool' | 'title' | 'language'>;
+
+export const AUDIO_EVENT = 'faithwalk-audio-updated';
+
+const dispatchUpdate = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(AUDIO_EVENT));
+};
+
+export const saveNarration = async (narration: Omit<SavedNarration, 'size' | 'duration'>) => {
+  const size = narration.sections.reduce((sum, s) => sum + s.size, 0);
+  // Each section is 16-bit mono behind a 44-byte header
+  const duration = (size - 44 * narration.sections.length) / (NARRATION_RATE * 2);
+  await withStore(STORES.AUDIO, 'readwrite', (store) => { store.put({ ...narration, size, duration }); });
+  dispatchUpdate();
+};
+
+export const getNarration = async (id: string): Promise<SavedNarration | null> => {
+  try {
+    const item = await withStore(STORES.AUDIO, 'readonly', (store) => requestToPromise(store.get(id)));
+    return (item as SavedNarration) || null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const deleteNarration = async (id: string) => {
+  await withStore(STORES.AUDIO, 'readwrite', (store) => { store.delete(id); });
+  dispatchUpdate();
+};
+
+// Called by services/cache.ts when History entries are removed, so their audio goes with them
+export const deleteNarrations = async (ids: string[] | 'all') => {
+  if (ids !== 'all' && ids.length === 0) return;
+  await withStore(STORES.AUDIO, 'readwrite', (store) => {
+    if (ids === 'all') store.clear();
+    else ids.forEach(id => store.delete(id));
+  });
+  dispatchUpdate();
+};
+
+// Newest first
+export const getNarrations = async (): Promise<SavedNarration[]> => {
+  try {
+    const items = await withStore(STORES.AUDIO, 'readonly', (store) => requestToPromise(store.index('createdAt').getAll())) as SavedNarration[];
+    return items.reverse();
+  } catch (e) {
+    return [];
+  }
+};
+
+// The sections as one WAV file, for playing through or sharing
+export const narrationToWav = async (narration: SavedNarration): Promise<Blob> => {
+  const parts = await Promise.all(narration.sections.map(s => s.arrayBuffer()));
+  return new Blob([joinWavs(parts, NARRATION_RATE)], { type: 'audio/wav' });
+};
+
+// Space used by everything the app keeps on this device, where the browser reports it
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  try {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (e) {
+    return null;
+  }
+};
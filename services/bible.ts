@@ -0,0 +1,122 @@
+import KJV_URL from 'kjv/json/verses-1769.json?url';
+import { STORES, withStore, requestToPromise } from './db';
+import { BibleResult } from '../types';
+import { BOOKS, ScriptureRef, findBook, formatReference } from '../utils/scriptureRef';
+
+// --- Offline Bible ---
+// The public-domain King James Version ships as a separate asset. It is downloaded the
+// first time Scripture Search needs it, written into IndexedDB, and from then on
+// references and keyword searches are answered on the device.
+
+export const TRANSLATION = { id: 'KJV', name: 'King James Version' };
+
+// Set once every verse has been stored, so a half-finished load is retried
+const LOADED_KEY = 'faithwalk_bible_loaded_v1';
+const WRITE_BATCH = 2000;
+
+export interface Verse {
+  id: number;
+  book: number; // index into BOOKS
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export const verseId = (book: number, chapter: number, verse: number) => book * 1000000 + chapter * 1000 + verse;
+
+// The source marks paragraphs with "#" and translator-supplied words with [brackets]
+const cleanVerseText = (text: string) => text.replace(/^#\s*/, '').replace(/[[\]]/g, '').trim();
+
+let versesInMemory: Verse[] | null = null;
+let loadPromise: Promise<void> | null = null;
+
+export const isBibleLoaded = () => {
+  try {
+    return localStorage.getItem(LOADED_KEY) === TRANSLATION.id;
+  } catch (e) {
+    return false;
+  }
+};
+
+const loadBible = async () => {
+  const response = await fetch(KJV_URL);
+  if (!response.ok) throw new Error("Could not download the offline Bible.");
+  const data: Record<string, string> = await response.json();
+
+  const verses: Verse[] = [];
+  Object.entries(data).forEach(([key, text]) => {
+    const match = key.match(/^(.+) (\d+):(\d+)$/);
+    const book = match ? findBook(match[1]) : -1;
+    if (!match || book < 0) return;
+    const chapter = Number(match[2]);
+    const verse = Number(match[3]);
+    verses.push({ id: verseId(book, chapter, verse), book, chapter, verse, text: cleanVerseText(text) });
+  });
+
+  // Batched so no single transaction holds the whole Bible
+  for (let i = 0; i < verses.length; i += WRITE_BATCH) {
+    await withStore(STORES.BIBLE, 'readwrite', (store) => {
+      verses.slice(i, i + WRITE_BATCH).forEach(v => store.put(v));
+    });
+  }
+  verses.sort((a, b) => a.id - b.id);
+  versesInMemory = verses;
+  localStorage.setItem(LOADED_KEY, TRANSLATION.id);
+};
+
+// Resolves once the Bible is in IndexedDB, downloading it on first call
+export const ensureBible = (): Promise<void> => {
+  if (isBibleLoaded()) return Promise.resolve();
+  if (!loadPromise) {
+    loadPromise = loadBible().catch((e) => {
+      loadPromise = null;
+      throw e;
+    });
+  }
+  return loadPromise;
+};
+
+const allVerses = async (): Promise<Verse[]> => {
+  if (!versesInMemory) {
+    await ensureBible();
+    versesInMemory ??= await withStore(STORES.BIBLE, 'readonly', (store) => requestToPromise(store.getAll())) as Verse[];
+  }
+  return versesInMemory;
+};
+
+// --- Lookup ---
+export const lookupReference = async (ref: ScriptureRef): Promise<Verse[]> => {
+  await ensureBible();
+  const start = verseId(ref.book, ref.chapter, ref.verse ?? 0);
+  const end = ref.endChapter !== undefined
+    ? verseId(ref.book, ref.endChapter, ref.endVerse ?? 999)
+    : verseId(ref.book, ref.chapter, ref.endVerse ?? ref.verse ?? 999);
+  if (end < start) return [];
+  return withStore(STORES.BIBLE, 'readonly', (store) => requestToPromise(store.getAll(IDBKeyRange.bound(start, end)))) as Promise<Verse[]>;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Verses containing every word of the query (as word prefixes); exact phrase matches first
+export const searchVerses = async (query: string, limit = 30): Promise<{ verses: Verse[]; total: number }> => {
+  const words = query.toLowerCase().match(/[\p{L}']+/gu)?.filter(w => w.length > 1) || [];
+  if (words.length === 0) return { verses: [], total: 0 };
+  const patterns = words.map(w => new RegExp(`\\b${escapeRegExp(w)}`, 'i'));
+  const phrase = words.join(' ');
+
+  const matches = (await allVerses()).filter(v => patterns.every(p => p.test(v.text)));
+  const exact = matches.filter(v => v.text.toLowerCase().includes(phrase));
+  const rest = matches.filter(v => !v.text.toLowerCase().includes(phrase));
+  return { verses: [...exact, ...rest].slice(0, limit), total: matches.length };
+};
+
+export const verseReference = (v: Verse) => `${BOOKS[v.book].name} ${v.chapter}:${v.verse}`;
+
+// One passage card for a looked-up reference; verse numbers are inlined when it spans several
+export const versesToPassage = (ref: ScriptureRef, verses: Verse[]): BibleResult => {
+  const multiChapter = verses.length > 0 && verses[0].chapter !== verses[verses.length - 1].chapter;
+  const text = verses.length === 1
+    ? verses[0].text
+    : verses.map(v => `${multiChapter ? `${v.chapter}:` : ''}${v.verse} ${v.text}`).join(' ');
+  return { reference: formatReference(ref), text, explanation: '' };
+};
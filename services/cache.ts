@@ -1,51 +1,231 @@
+import { STORES, withStore, requestToPromise } from './db';
+import { Conversation, SeriesWeek } from '../types';
+import { deleteNarrations } from './audioLibrary';
+
+export type HistoryTool = 'BIBLE' | 'BIO' | 'SERMON' | 'SERIES' | 'REFLECTION' | 'LIVE';
+export type CacheOptions = Record<string, string | number | boolean>;
 
 export interface HistoryItem {
   id: string;
   timestamp: number;
-  tool: 'BIBLE' | 'BIO' | 'SERMON' | 'LIVE';
+  tool: HistoryTool;
   query: string;
   result: any;
   language: string;
+  options?: CacheOptions;
+  cacheKey?: string;
+}
+
+export interface RetentionSettings {
+  maxItems: number;   // 0 = unlimited
+  maxAgeDays: number; // 0 = keep forever
 }
 
-const CACHE_KEY = 'faithwalk_history_cache_v1';
+// Legacy localStorage store, migrated into IndexedDB on first use
+const LEGACY_CACHE_KEY = 'faithwalk_history_cache_v1';
+const RETENTION_KEY = 'faithwalk_history_retention_v1';
 export const HISTORY_EVENT = 'faithwalk-history-updated';
 
-export const saveToCache = (tool: 'BIBLE' | 'BIO' | 'SERMON' | 'LIVE', query: string, result: any, language: string) => {
+export const DEFAULT_RETENTION: RetentionSettings = { maxItems: 200, maxAgeDays: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a saved answer is served before the tool asks the model again. Expired
+// items stay in History; they are just no longer used as cache hits.
+export const CACHE_TTL_MS: Record<Exclude<HistoryTool, 'LIVE'>, number> = {
+  BIBLE: 30 * DAY_MS,
+  SERMON: 14 * DAY_MS,
+  BIO: 90 * DAY_MS,
+  // A series carries the user's progress, so it is always reopened rather than re-planned
+  SERIES: Infinity,
+  // A reading plan day's reflection is worth keeping for the next time through the plan
+  REFLECTION: 365 * DAY_MS,
+};
+
+// --- Cache keys ---
+export const normalizeQuery = (query: string) =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[?.!\s]+$/, '');
+
+export const buildCacheKey = (tool: HistoryTool, query: string, language: string, options: CacheOptions = {}) => {
+  const opts = Object.keys(options).sort().map(k => `${k}=${options[k]}`).join('&');
+  return [tool, normalizeQuery(query), language, opts].join('|');
+};
+
+// Before cache keys existed the language rode along in the query as "(Reply in xx-XX)"
+// and sermons packed their options as "topic::audience::deep". Split those back out.
+const normalizeLegacyItem = (item: HistoryItem): HistoryItem => {
+  let query = item.query;
+  let language = item.language || 'en';
+  let options: CacheOptions | undefined = item.options;
+
+  if (item.tool === 'SERMON' && query.includes('::')) {
+    const [topic, audience, deep] = query.split('::');
+    query = topic;
+    options = { audience, includeDeepContext: deep === 'true' };
+  }
+  const langMatch = query.match(/\s*\((?:Reply|Write) in ([^)]+)\)\s*$/);
+  if (langMatch) {
+    language = langMatch[1];
+    query = query.slice(0, langMatch.index).trim();
+  }
+
+  const normalized = { ...item, query, language, options };
+  if (item.tool !== 'LIVE') normalized.cacheKey = buildCacheKey(item.tool, query, language, options);
+  return normalized;
+};
+
+// --- Cross-tab notifications ---
+// IndexedDB has no 'storage' event, so tabs tell each other through a BroadcastChannel
+// and every tab re-dispatches HISTORY_EVENT on its own window.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(HISTORY_EVENT) : null;
+if (channel) channel.onmessage = () => dispatchLocal();
+
+const dispatchLocal = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(HISTORY_EVENT));
+  }
+};
+
+const dispatchUpdate = () => {
+  dispatchLocal();
+  channel?.postMessage('updated');
+};
+
+// --- Retention ---
+export const getRetention = (): RetentionSettings => {
+  try {
+    const raw = localStorage.getItem(RETENTION_KEY);
+    return raw ? { ...DEFAULT_RETENTION, ...JSON.parse(raw) } : DEFAULT_RETENTION;
+  } catch (e) {
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const setRetention = async (settings: RetentionSettings) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(settings));
+  await pruneHistory(settings);
+  dispatchUpdate();
+};
+
+// A series that has been written or preached from holds the user's progress, not just
+// a cached answer, so retention leaves it alone
+const hasProgress = (item: HistoryItem) =>
+  item.tool === 'SERIES' && Array.isArray(item.result?.weeks) && item.result.weeks.some((w: SeriesWeek) => w?.sermon || w?.preached);
+
+// Deletes items beyond maxItems (oldest first) and items older than maxAgeDays, along
+// with their saved narrations
+const pruneHistory = async ({ maxItems, maxAgeDays }: RetentionSettings) => {
+  const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : 0;
+  const removed: string[] = [];
+  await withStore(STORES.HISTORY, 'readwrite', (store) => new Promise<void>((resolve, reject) => {
+    let kept = 0;
+    const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) { resolve(); return; }
+      const item = cursor.value as HistoryItem;
+      if (hasProgress(item)) { cursor.continue(); return; }
+      if ((maxItems > 0 && kept >= maxItems) || item.timestamp < cutoff) {
+        cursor.delete();
+        if (item.cacheKey) removed.push(item.cacheKey);
+      } else kept++;
+      cursor.continue();
+    };
+  }));
+  await deleteNarrations(removed);
+};
+
+// --- Migration ---
+let readyPromise: Promise<void> | null = null;
+
+const migrateLegacyHistory = async () => {
+  const raw = localStorage.getItem(LEGACY_CACHE_KEY);
+  if (!raw) return;
+  let legacy: HistoryItem[] = [];
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    console.warn("Discarding unreadable legacy history", e);
+  }
+  if (Array.isArray(legacy) && legacy.length > 0) {
+    await withStore(STORES.HISTORY, 'readwrite', (store) => {
+      // Legacy ids were Date.now() strings and may collide; suffix with the index
+      legacy.forEach((item, i) => store.put(normalizeLegacyItem({ ...item, id: `${item.id}-${i}` })));
+    });
+  }
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+};
+
+// Items written before the cacheKey index existed are missing from it
+const backfillCacheKeys = () => withStore(STORES.HISTORY, 'readwrite', async (store) => {
+  const [total, keyed, live] = await Promise.all([
+    requestToPromise(store.count()),
+    requestToPromise(store.index('cacheKey').count()),
+    requestToPromise(store.index('tool').count('LIVE')),
+  ]);
+  if (total - live === keyed) return;
+  const items = await requestToPromise(store.getAll()) as HistoryItem[];
+  items.filter(item => item.tool !== 'LIVE' && !item.cacheKey).forEach(item => store.put(normalizeLegacyItem(item)));
+});
+
+const ready = (): Promise<void> => {
+  if (!readyPromise) {
+    readyPromise = migrateLegacyHistory().then(backfillCacheKeys).catch((e) => {
+      readyPromise = null;
+      throw e;
+    });
+  }
+  return readyPromise;
+};
+
+// --- Public API ---
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isQuotaError = (e: any) => e?.name === 'QuotaExceededError' || e?.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+
+export const saveToCache = async (tool: HistoryTool, query: string, result: any, language: string, options?: CacheOptions) => {
   if (!query || !result) return;
-  
+
   const newItem: HistoryItem = {
-    id: Date.now().toString(),
+    id: newId(),
     timestamp: Date.now(),
     tool,
     query: query.trim(),
     result,
-    language
+    language,
+    ...(options ? { options } : {}),
+    ...(tool !== 'LIVE' ? { cacheKey: buildCacheKey(tool, query, language, options) } : {}),
   };
+  await storeItem(newItem);
+};
+
+// Writes one item, then applies the retention settings
+const storeItem = async (newItem: HistoryItem) => {
+  const write = () => withStore(STORES.HISTORY, 'readwrite', async (store) => {
+    // Replace the previous answer for the same key; Live conversations have none
+    if (newItem.cacheKey) {
+      const keys = await requestToPromise(store.index('cacheKey').getAllKeys(newItem.cacheKey));
+      keys.forEach(key => store.delete(key));
+    }
+    store.put(newItem);
+  });
 
   try {
-    const existing = getHistory();
-    // Remove duplicates for same query (for non-Live tools primarily)
-    const filtered = tool === 'LIVE' 
-      ? existing 
-      : existing.filter(item => item.query.toLowerCase() !== query.trim().toLowerCase());
-    
-    // Add to top, default limit 50
-    const updated = [newItem, ...filtered].slice(0, 50);
-    localStorage.setItem(CACHE_KEY, JSON.stringify(updated));
+    await ready();
+    await write();
+    await pruneHistory(getRetention());
     dispatchUpdate();
   } catch (e: any) {
-    // Robust Quota Handling: If storage is full, remove oldest items and retry
-    if (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED') {
+    // Storage full: halve the history and retry once. maxItems 0 would mean no limit, so a
+    // short history is cut down to its newest item.
+    if (isQuotaError(e)) {
       try {
         console.warn("Storage full, cleaning up old history...");
-        const existing = getHistory();
-        if (existing.length > 5) {
-          // Keep only the newest 25 items to free up significant space
-          const pruned = [newItem, ...existing].slice(0, 25);
-          localStorage.setItem(CACHE_KEY, JSON.stringify(pruned));
-          dispatchUpdate();
-        }
+        const count = (await getHistory()).length;
+        await pruneHistory({ maxItems: Math.max(1, Math.floor(count / 2)), maxAgeDays: 0 });
+        await write();
+        dispatchUpdate();
       } catch (retryError) {
         console.error("Failed to save history even after pruning", retryError);
       }
@@ -55,32 +235,244 @@ export const saveToCache = (tool: 'BIBLE' | 'BIO' | 'SERMON' | 'LIVE', query: st
   }
 };
 
-const dispatchUpdate = () => {
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new Event(HISTORY_EVENT));
+// --- Live Conversations ---
+// A voice session is a single History item, rewritten under the same id after every
+// turn, so a dropped call still leaves its transcript behind.
+const CONVERSATION_TITLE_LENGTH = 80;
+
+export const saveConversation = async (id: string, conversation: Conversation, language: string) => {
+  const turns = conversation.turns.filter(t => t.text.trim());
+  if (turns.length === 0) return;
+  const opening = turns.find(t => t.role === 'user')?.text.trim() || 'Voice consultation';
+  await storeItem({
+    id,
+    timestamp: conversation.startedAt,
+    tool: 'LIVE',
+    query: opening.length > CONVERSATION_TITLE_LENGTH ? `${opening.slice(0, CONVERSATION_TITLE_LENGTH).trimEnd()}…` : opening,
+    result: { ...conversation, turns },
+    language,
+  });
+};
+
+// Items saved before whole-session transcripts hold one turn: the user's words as the
+// query and the counselor's reply as a string result
+export const isConversation = (result: any): result is Conversation => Array.isArray(result?.turns);
+
+export const conversationToText = ({ turns }: Conversation) =>
+  turns.map(t => `${t.role === 'user' ? 'You' : 'Counselor'} (${new Date(t.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}): ${t.text.trim()}`).join('\n\n');
+
+// Saves an edited result alongside the original as the next numbered version. The
+// version is part of the options, so versions never replace each other or serve as
+// cache hits for the original request.
+export const saveVersion = async (tool: Exclude<HistoryTool, 'LIVE'>, query: string, result: any, language: string, options: CacheOptions = {}): Promise<number> => {
+  const { version, ...base } = options;
+  const baseKey = buildCacheKey(tool, query, language, base);
+  let latest = Number(version) || 1;
+  try {
+    await ready();
+    const items = await withStore(STORES.HISTORY, 'readonly', (store) => requestToPromise(store.index('tool').getAll(tool))) as HistoryItem[];
+    items.forEach(item => {
+      const { version: itemVersion = 1, ...rest } = item.options || {};
+      if (buildCacheKey(tool, item.query, item.language, rest) === baseKey) latest = Math.max(latest, Number(itemVersion));
+    });
+  } catch (e) {
+    console.warn("Could not read earlier versions", e);
   }
+  const next = latest + 1;
+  await saveToCache(tool, query, result, language, { ...base, version: next });
+  return next;
 };
 
-export const checkCache = (tool: 'BIBLE' | 'BIO' | 'SERMON', query: string): any | null => {
+// Returns the saved result for this exact tool/query/language/options, unless it has expired
+export const checkCache = async (
+  tool: Exclude<HistoryTool, 'LIVE'>,
+  query: string,
+  language: string,
+  options?: CacheOptions
+): Promise<any | null> => {
   try {
-    const history = getHistory();
-    const item = history.find(h => h.tool === tool && h.query.toLowerCase() === query.trim().toLowerCase());
-    return item ? item.result : null;
+    await ready();
+    const key = buildCacheKey(tool, query, language, options);
+    const items = await withStore(STORES.HISTORY, 'readonly', (store) => requestToPromise(store.index('cacheKey').getAll(key))) as HistoryItem[];
+    const fresh = items
+      .filter(item => Date.now() - item.timestamp < CACHE_TTL_MS[tool])
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    return fresh ? fresh.result : null;
   } catch (e) {
     return null;
   }
 };
 
-export const getHistory = (): HistoryItem[] => {
+// Newest first
+export const getHistory = async (): Promise<HistoryItem[]> => {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    return raw ? JSON.parse(raw) : [];
+    await ready();
+    const items = await withStore(STORES.HISTORY, 'readonly', (store) => requestToPromise(store.index('timestamp').getAll())) as HistoryItem[];
+    return items.reverse();
   } catch (e) {
     return [];
   }
 };
 
-export const clearHistory = () => {
-  localStorage.removeItem(CACHE_KEY);
+export const clearHistory = async () => {
+  try {
+    await ready();
+    await withStore(STORES.HISTORY, 'readwrite', (store) => { store.clear(); });
+    await deleteNarrations('all');
+  } catch (e) {
+    console.warn("Failed to clear history", e);
+  }
+  dispatchUpdate();
+};
+
+// --- Search & Filters ---
+export interface HistoryFilter {
+  text?: string;
+  tools?: HistoryTool[];
+  language?: string;
+  from?: number; // inclusive timestamp
+  to?: number;   // exclusive timestamp
+}
+
+// Flattens every string inside a result (plain text, bios, structured answers) for searching
+export const historyItemText = (item: HistoryItem): string => {
+  const parts: string[] = [item.query];
+  const walk = (value: any) => {
+    if (typeof value === 'string') parts.push(value);
+    else if (Array.isArray(value)) value.forEach(walk);
+    else if (value && typeof value === 'object') Object.values(value).forEach(walk);
+  };
+  walk(item.result);
+  return parts.join('\n');
+};
+
+export const filterHistory = (items: HistoryItem[], { text, tools, language, from, to }: HistoryFilter): HistoryItem[] => {
+  const terms = (text || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item => {
+    if (tools && tools.length > 0 && !tools.includes(item.tool)) return false;
+    if (language && item.language !== language) return false;
+    if (from !== undefined && item.timestamp < from) return false;
+    if (to !== undefined && item.timestamp >= to) return false;
+    if (terms.length === 0) return true;
+    const haystack = historyItemText(item).toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const historyFacets = (items: HistoryItem[]) => {
+  const tools: Partial<Record<HistoryTool, number>> = {};
+  const languages: Record<string, number> = {};
+  items.forEach(item => {
+    tools[item.tool] = (tools[item.tool] || 0) + 1;
+    languages[item.language] = (languages[item.language] || 0) + 1;
+  });
+  return { tools, languages };
+};
+
+// --- Export & Import ---
+const BACKUP_FORMAT = 'faithwalk-history';
+const BACKUP_VERSION = 1;
+
+export interface HistoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: HistoryItem[];
+}
+
+const TOOL_TITLES: Record<HistoryTool, string> = {
+  BIBLE: 'Scripture',
+  BIO: 'Biography',
+  SERMON: 'Sermon',
+  SERIES: 'Sermon Series',
+  REFLECTION: 'Reading Reflection',
+  LIVE: 'Conversation',
+};
+
+export const exportHistoryJson = (items: HistoryItem[]): string => {
+  const backup: HistoryBackup = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), items };
+  return JSON.stringify(backup, null, 2);
+};
+
+const resultToMarkdown = (item: HistoryItem): string => {
+  const result = item.result;
+  if (typeof result === 'string') return result;
+  if (isConversation(result)) return conversationToText(result);
+  if (result && Array.isArray(result.weeks)) {
+    const weeks = result.weeks.map((w: any, i: number) =>
+      `### Week ${i + 1}: ${w.title}${w.preached ? ' ✓' : ''}\n\n**${w.mainText}** — ${w.bigIdea}${w.sermon ? `\n\n${w.sermon}` : ''}`);
+    return [result.description, ...weeks].filter(Boolean).join('\n\n');
+  }
+  if (result && Array.isArray(result.passages)) {
+    const passages = result.passages.map((p: any) => `### ${p.reference}\n\n> ${p.text}\n\n${p.explanation}`);
+    return [result.summary, ...passages].filter(Boolean).join('\n\n');
+  }
+  if (result && typeof result.text === 'string') {
+    const places = Array.isArray(result.locations) && result.locations.length > 0
+      ? '\n\n**Places:** ' + result.locations.map((l: any) => `[${l.title}](${l.uri})`).join(', ')
+      : '';
+    return result.text + places;
+  }
+  return '';
+};
+
+export const exportHistoryMarkdown = (items: HistoryItem[]): string => {
+  const sections = items.map(item => {
+    const meta = [new Date(item.timestamp).toLocaleString(), item.language].filter(Boolean).join(' · ');
+    const heading = item.tool === 'LIVE' && !isConversation(item.result) ? `User: ${item.query}` : item.query;
+    return `## ${TOOL_TITLES[item.tool]}: ${heading}\n\n*${meta}*\n\n${resultToMarkdown(item)}`;
+  });
+  return `# FaithWalk History\n\nExported ${new Date().toLocaleString()} · ${items.length} items\n\n---\n\n${sections.join('\n\n---\n\n')}\n`;
+};
+
+const isHistoryItem = (value: any): value is HistoryItem =>
+  value && typeof value.id === 'string' && typeof value.timestamp === 'number' &&
+  typeof value.query === 'string' && value.result !== undefined && TOOL_TITLES[value.tool as HistoryTool] !== undefined;
+
+// Two items are the same entry if they share an id, or (for Live turns) the same
+// query at the same moment, or (for tools) the same query/language/options.
+const duplicateKey = (item: HistoryItem) =>
+  item.tool === 'LIVE' ? `LIVE|${normalizeQuery(item.query)}|${item.timestamp}` : buildCacheKey(item.tool, item.query, item.language, item.options);
+
+// Merges a backup (or a raw faithwalk_history_cache_v1 array) into the store. When the
+// same query exists on both sides the newer answer wins. Entries that are not History
+// items are counted as invalid, ones already present (or older) as duplicates.
+export const importHistory = async (json: string): Promise<{ added: number; duplicates: number; invalid: number }> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("This file is not valid JSON.");
+  }
+  const rawItems = Array.isArray(parsed) ? parsed : parsed?.format === BACKUP_FORMAT ? parsed.items : null;
+  if (!Array.isArray(rawItems)) throw new Error("This file is not a FaithWalk history backup.");
+  if (!Array.isArray(parsed) && parsed.version > BACKUP_VERSION) throw new Error("This backup was made by a newer version of FaithWalk.");
+
+  const incoming = rawItems.filter(isHistoryItem).map(item => normalizeLegacyItem({ ...item, language: item.language || 'en' }));
+  await ready();
+
+  let added = 0;
+  let duplicates = 0;
+  await withStore(STORES.HISTORY, 'readwrite', async (store) => {
+    const existing = await requestToPromise(store.getAll()) as HistoryItem[];
+    const ids = new Set(existing.map(item => item.id));
+    const byKey = new Map(existing.map(item => [duplicateKey(item), item]));
+
+    incoming.forEach(item => {
+      const key = duplicateKey(item);
+      const match = byKey.get(key);
+      if (ids.has(item.id) || (match && match.timestamp >= item.timestamp)) {
+        duplicates++;
+        return;
+      }
+      if (match) store.delete(match.id);
+      store.put(item);
+      ids.add(item.id);
+      byKey.set(key, item);
+      added++;
+    });
+  });
+
   dispatchUpdate();
+  return { added, duplicates, invalid: rawItems.length - incoming.length };
 };
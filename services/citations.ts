@@ -0,0 +1,150 @@
+import { BibleAnswer } from '../types';
+import { ensureBible, isBibleLoaded, lookupReference, searchVerses, verseReference, TRANSLATION } from './bible';
+import { BOOKS, ReferenceMatch, ScriptureRef, findReferences, formatReferenceList, parseReferenceList, withinBook } from '../utils/scriptureRef';
+
+// --- Citation Checks ---
+// Every reference the model cites is looked up in the offline Bible. Where it also
+// quotes the verse, the wording is compared with the local text, so invented verses
+// and quotes pinned to the wrong chapter are flagged before anyone repeats them.
+
+// 'exists' is a reference found in the Bible whose wording could not be compared: no
+// quote, too short a quote, or an answer in another language
+export type CitationStatus = 'verified' | 'exists' | 'paraphrased' | 'not_found';
+
+export interface Citation {
+  key: string;          // formatted references, as ScriptureText keys its links
+  quote?: string;
+  status: CitationStatus;
+  note: string;
+}
+
+export interface CitationReport {
+  citations: Record<string, Citation>;
+  total: number;
+  verified: number;
+  exists: number;
+}
+
+// Quotes shorter than this are too short to judge the wording
+const MIN_QUOTE_WORDS = 4;
+// Modern translations of a verse usually share most of its words with the KJV
+const VERIFIED_OVERLAP = 0.7;
+const PARAPHRASE_OVERLAP = 0.4;
+
+// Function words say nothing about which verse is quoted
+const STOP_WORDS = new Set(['the', 'and', 'that', 'for', 'but', 'with', 'his', 'her', 'him', 'them', 'they', 'this', 'are', 'was', 'all', 'not', 'who', 'which', 'unto', 'shall', 'will', 'have', 'hath', 'from', 'into', 'your', 'you', 'thee', 'thou', 'thy', 'our', 'their']);
+
+// Lowercase content words with KJV endings folded, so "believeth" matches "believes"
+const words = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}']+/gu) || [])
+    .map(w => w.replace(/'s?$/, ''))
+    .filter(w => w.length > 2 && !STOP_WORDS.has(w))
+    .map(w => w.length > 4 ? w.replace(/(eth|est|ed|es|s|ing)$/, '') : w);
+
+// Share of the quote's words that appear in the verse text
+const overlap = (quote: string, verseText: string) => {
+  const quoted = words(quote);
+  const verse = new Set(words(verseText));
+  return quoted.length === 0 ? 0 : quoted.filter(w => verse.has(w)).length / quoted.length;
+};
+
+// The wording can only be compared with the KJV when the answer is in English
+const comparesWording = (language: string) => language.toLowerCase().startsWith('en');
+
+const checkCitation = async (refs: ScriptureRef[], quote: string | undefined, language: string): Promise<Citation> => {
+  const key = formatReferenceList(refs);
+  const outside = refs.find(ref => !withinBook(ref));
+  if (outside) {
+    const book = BOOKS[outside.book];
+    return { key, quote, status: 'not_found', note: `${book.name} has only ${book.chapters} ${book.chapters === 1 ? 'chapter' : 'chapters'}.` };
+  }
+  const passages = await Promise.all(refs.map(lookupReference));
+  if (passages.some(verses => verses.length === 0)) {
+    return { key, quote, status: 'not_found', note: `${key} does not exist in the ${TRANSLATION.name}.` };
+  }
+  if (!quote || words(quote).length < MIN_QUOTE_WORDS || !comparesWording(language)) {
+    return { key, quote, status: 'exists', note: `${key} exists in the ${TRANSLATION.name}; the wording was not compared.` };
+  }
+
+  const score = overlap(quote, passages.flat().map(v => v.text).join(' '));
+  if (score >= VERIFIED_OVERLAP) return { key, quote, status: 'verified', note: `The quoted wording matches ${key}.` };
+  if (score >= PARAPHRASE_OVERLAP) return { key, quote, status: 'paraphrased', note: `The quote loosely follows ${key} but is not its wording.` };
+
+  // Misattributed: say where the wording actually comes from, if anywhere
+  const { verses } = await searchVerses(words(quote).slice(0, 4).join(' '), 5);
+  const source = verses.find(v => overlap(quote, v.text) >= VERIFIED_OVERLAP);
+  return {
+    key,
+    quote,
+    status: 'not_found',
+    note: source ? `This wording is from ${verseReference(source)}, not ${key}.` : `The quoted wording is not in ${key}.`,
+  };
+};
+
+const buildReport = (citations: Citation[]): CitationReport => {
+  const byKey: Record<string, Citation> = {};
+  // A reference cited twice counts once, keeping its worst result. A quote that matched
+  // outranks a bare mention of the same reference.
+  const rank: Record<CitationStatus, number> = { exists: 0, verified: 1, paraphrased: 2, not_found: 3 };
+  citations.forEach(c => {
+    if (!byKey[c.key] || rank[c.status] > rank[byKey[c.key].status]) byKey[c.key] = c;
+  });
+  const all = Object.values(byKey);
+  const count = (status: CitationStatus) => all.filter(c => c.status === status).length;
+  return { citations: byKey, total: all.length, verified: count('verified'), exists: count('exists') };
+};
+
+// False when there is nothing to check against: offline before the Bible was downloaded
+const ready = async () => {
+  if (!isBibleLoaded() && typeof navigator !== 'undefined' && !navigator.onLine) return false;
+  try {
+    await ensureBible();
+    return true;
+  } catch (e) {
+    console.warn("Citation check skipped", e);
+    return false;
+  }
+};
+
+export const verifyBibleAnswer = async (answer: BibleAnswer, language: string): Promise<CitationReport | null> => {
+  if (!(await ready())) return null;
+  const checks: Promise<Citation>[] = [];
+  answer.passages.forEach(p => {
+    const refs = parseReferenceList(p.reference, language);
+    if (refs.length > 0) checks.push(checkCitation(refs, p.text, language));
+  });
+  // References mentioned in passing are checked for existence only
+  [answer.summary, ...answer.passages.map(p => p.explanation)].forEach(text => {
+    findReferences(text, language).forEach(m => checks.push(checkCitation(m.refs, undefined, language)));
+  });
+  return buildReport(await Promise.all(checks));
+};
+
+const QUOTE_RE = /["“]([^"”]+)["”]/g;
+
+// The quotation a sermon gives for a reference: the nearest quoted string on the same
+// line, or the Markdown blockquote the reference sits in
+const quoteFor = (lines: string[], lineIndex: number, { start: refStart, end: refEnd, text: referenceText }: ReferenceMatch): string | undefined => {
+  const line = lines[lineIndex];
+  const distance = (m: RegExpMatchArray) => Math.max(m.index! - refEnd, refStart - (m.index! + m[0].length), 0);
+  const quoted = [...line.matchAll(QUOTE_RE)].sort((a, b) => distance(a) - distance(b))[0];
+  if (quoted) return quoted[1];
+  if (!/^\s*>/.test(line)) return undefined;
+
+  let start = lineIndex;
+  let end = lineIndex;
+  while (start > 0 && /^\s*>/.test(lines[start - 1])) start--;
+  while (end < lines.length - 1 && /^\s*>/.test(lines[end + 1])) end++;
+  const block = lines.slice(start, end + 1).map(l => l.replace(/^\s*>\s?/, '')).join(' ');
+  return block.replace(referenceText, '').replace(/[—–()*_]/g, ' ').trim() || undefined;
+};
+
+export const verifySermon = async (sermon: string, language: string): Promise<CitationReport | null> => {
+  if (!(await ready())) return null;
+  const lines = sermon.split('\n');
+  const checks: Promise<Citation>[] = [];
+  lines.forEach((line, i) => {
+    findReferences(line, language).forEach(m => checks.push(checkCitation(m.refs, quoteFor(lines, i, m), language)));
+  });
+  return buildReport(await Promise.all(checks));
+};
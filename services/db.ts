@@ -0,0 +1,116 @@
+// --- IndexedDB ---
+// One database for everything FaithWalk keeps on the device. Each schema change bumps
+// DB_VERSION and adds an `oldVersion < n` step in upgrade(), so existing installs
+// migrate forward in order.
+
+const DB_NAME = 'faithwalk';
+const DB_VERSION = 7;
+
+export const STORES = {
+  HISTORY: 'history',
+  BIBLE: 'bible',
+  ANNOTATIONS: 'annotations',
+  RECORDINGS: 'recordings',
+  AUDIO: 'audio',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.HISTORY, { keyPath: 'id' });
+    history.createIndex('tool', 'tool');
+    history.createIndex('language', 'language');
+    history.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 2) {
+    // Items without a cacheKey are absent from this index until services/cache.ts backfills them
+    tx.objectStore(STORES.HISTORY).createIndex('cacheKey', 'cacheKey');
+  }
+  if (oldVersion < 3) {
+    // Verses keyed by a numeric id in canonical order, so a reference is one key range
+    db.createObjectStore(STORES.BIBLE, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    // Keyed by the formatted reference, so a passage is bookmarked at most once
+    db.createObjectStore('bookmarks', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 5) {
+    // Highlights, notes and collections. Verse bookmarks move in as annotations of their
+    // own passage (see services/annotations.ts) and their old store is dropped.
+    const annotations = db.createObjectStore(STORES.ANNOTATIONS, { keyPath: 'id' });
+    annotations.createIndex('createdAt', 'createdAt');
+    const bookmarks = tx.objectStore('bookmarks').getAll();
+    bookmarks.onsuccess = () => {
+      bookmarks.result.forEach(({ reference, text, createdAt }) => annotations.put({
+        id: `verse:${reference}`, source: 'VERSE', title: reference, text,
+        color: null, note: '', bookmarked: true, collections: [], createdAt, updatedAt: createdAt,
+      }));
+      db.deleteObjectStore('bookmarks');
+    };
+  }
+  if (oldVersion < 6) {
+    // Live session recordings: WAV blobs with their transcripts
+    db.createObjectStore(STORES.RECORDINGS, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 7) {
+    // Narrations of History answers, keyed by the answer's cache key
+    db.createObjectStore(STORES.AUDIO, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB not supported."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => upgrade(request.result, request.transaction!, e.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema: let it, and reopen on next use
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn("IndexedDB upgrade blocked by another open tab");
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs fn inside a transaction and resolves once the transaction commits, with
+// whatever fn returned (awaited). Rejects, and rolls back, if anything fails.
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(store, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted."));
+  });
+  let result: T;
+  try {
+    result = await fn(tx.objectStore(store));
+  } catch (e) {
+    done.catch(() => {});
+    try { tx.abort(); } catch (abortError) {}
+    throw e;
+  }
+  await done;
+  return result;
+};
@@ -1,35 +1,15 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GoogleGenAI } from '@google/genai';
 import { saveToCache, checkCache } from './cache';
+import { getProvider, resolveModel, DEFAULT_MODELS, TextRequest, TextResponse } from './providers';
+import { loadPreferences } from './preferences';
+import { BibleAnswer, SermonSeries } from '../types';
 
-// Safe API Key retrieval: LocalStorage (Legacy support) -> Vite -> React App -> Standard Node
-export const getApiKey = () => {
-  let key = '';
-  
-  // 1. Check Local Storage (Legacy/Fallback)
-  if (typeof window !== 'undefined') {
-    const stored = localStorage.getItem('user_gemini_api_key');
-    if (stored) return stored;
-  }
-
-  // 2. Check Environment Variables
-  try {
-    // @ts-ignore
-    if (import.meta?.env?.VITE_API_KEY) return import.meta.env.VITE_API_KEY;
-    // @ts-ignore
-    if (process.env.REACT_APP_API_KEY) return process.env.REACT_APP_API_KEY;
-    // @ts-ignore
-    if (process.env.API_KEY) return process.env.API_KEY;
-  } catch (e) {
-    console.warn("Environment variable access failed");
-  }
-  return key;
-};
+export interface BioData {
+  text: string;
+  locations: Array<{ title: string; uri: string }>;
+}
 
-// Re-initialize AI when key changes
-export const getGenAI = () => {
-  const key = getApiKey();
-  return new GoogleGenAI({ apiKey: key });
-};
+export { getApiKey, getGenAI, hasSavedApiKey, saveApiKey, clearApiKey } from './providers';
 
 // --- ADMOB INTERSTITIAL CONFIGURATION ---
 // These calls are formatted for Median.co (formerly GoNative) standard AdMob bridge.
@@ -89,6 +69,18 @@ const parseGenAIError = (error: any): string => {
   return message;
 };
 
+// Checks a pasted key with a model lookup, which costs no tokens. Resolves to "OK" or an
+// error code such as INVALID_KEY
+export const validateApiKey = async (key: string): Promise<string> => {
+  if (!key.trim()) return "MISSING_KEY";
+  try {
+    await new GoogleGenAI({ apiKey: key.trim() }).models.get({ model: DEFAULT_MODELS.gemini.BIBLE });
+    return "OK";
+  } catch (e: any) {
+    return parseGenAIError(e);
+  }
+};
+
 // --- Text Utilities ---
 export const cleanMarkdown = (text: string): string => {
   if (!text) return "";
@@ -109,63 +101,228 @@ export const cleanMarkdown = (text: string): string => {
 
 // --- Core Services ---
 
-export const searchBible = async (query: string): Promise<string> => {
-  const cached = checkCache('BIBLE', query);
-  if (cached) return cached;
+const BIBLE_ANSWER_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A faith-building answer to the question, citing the passages below.' },
+    passages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          reference: { type: 'string', description: 'Book Chapter:Verse, e.g. "Romans 8:28-30".' },
+          text: { type: 'string', description: 'The verse text.' },
+          explanation: { type: 'string', description: 'How this passage answers the question.' },
+        },
+        required: ['reference', 'text', 'explanation'],
+      },
+    },
+  },
+  required: ['summary', 'passages'],
+};
 
-  const ai = getGenAI();
-  if (!getApiKey()) return "MISSING_KEY";
+// Accepts bare JSON, fenced JSON, or (for legacy cache entries) free-form text
+export const parseBibleAnswer = (raw: any): BibleAnswer => {
+  if (raw && typeof raw === 'object' && Array.isArray(raw.passages)) return raw;
+  const text = typeof raw === 'string' ? raw : '';
+  try {
+    const json = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    if (json && typeof json.summary === 'string' && Array.isArray(json.passages)) {
+      return {
+        summary: json.summary,
+        passages: json.passages.filter((p: any) => p && p.reference).map((p: any) => ({
+          reference: String(p.reference),
+          text: String(p.text || ''),
+          explanation: String(p.explanation || ''),
+        })),
+      };
+    }
+  } catch (e) {}
+  return { summary: text, passages: [] };
+};
+
+export const bibleAnswerToText = (answer: BibleAnswer): string => {
+  const passages = answer.passages.map(p => `${p.reference}\n"${p.text}"\n${p.explanation}`);
+  return [answer.summary, ...passages].filter(Boolean).join('\n\n');
+};
 
+// Best-effort parse of a JSON document that is still streaming in: closes any open
+// string, object and array so the fields received so far can be rendered.
+const parsePartialJson = (text: string): any => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+  let closed = text.replace(/^\s*```(?:json)?\s*/, '');
+  if (escaped) closed = closed.slice(0, -1);
+  if (inString) closed += '"';
+  // Drop a dangling key or trailing comma before closing
+  closed = closed.replace(/([{,])\s*"[^"]*"\s*:?\s*$/, '$1').replace(/,\s*$/, '').replace(/:\s*$/, ': null');
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `User Query: "${query}".
+    return JSON.parse(closed + stack.reverse().join(''));
+  } catch (e) {
+    return null;
+  }
+};
+
+const parsePartialBibleAnswer = (text: string): BibleAnswer => {
+  const json = parsePartialJson(text);
+  return {
+    summary: typeof json?.summary === 'string' ? json.summary : '',
+    passages: Array.isArray(json?.passages)
+      ? json.passages.filter((p: any) => p && typeof p.reference === 'string').map((p: any) => ({
+          reference: p.reference,
+          text: typeof p.text === 'string' ? p.text : '',
+          explanation: typeof p.explanation === 'string' ? p.explanation : '',
+        }))
+      : [],
+  };
+};
+
+// Streams a request, reporting the accumulated text after every delta. If the signal
+// aborts, resolves with whatever arrived so far instead of throwing.
+const streamAccumulated = async (
+  req: TextRequest,
+  onText: (accumulated: string) => void,
+  signal?: AbortSignal
+): Promise<{ response: TextResponse; aborted: boolean }> => {
+  let accumulated = '';
+  try {
+    const response = await getProvider().streamText(req, (delta) => {
+      accumulated += delta;
+      onText(accumulated);
+    }, signal);
+    return { response, aborted: false };
+  } catch (error) {
+    if (signal?.aborted) return { response: { text: accumulated, locations: [] }, aborted: true };
+    throw error;
+  }
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Regenerate even if a fresh cached answer exists
+  skipCache?: boolean;
+}
+
+const bibleRequest = (query: string, language: string): TextRequest => ({
+  tool: 'BIBLE',
+  model: resolveModel('BIBLE'),
+  prompt: `User Query: "${query}".
       SYSTEM: You are FaithWalk AI. Provide a Biblical answer.
-      If query is non-Biblical, humbly refuse.
-      Provide a DETAILED, FAITH-BUILDING answer with Book/Chapter/Verse references.
-      Format neatly.`,
-      config: { maxOutputTokens: 8192 }
-    });
-    const text = response.text || "No answer found.";
-    if (text !== "No answer found.") saveToCache('BIBLE', query, text, 'en');
-    return text;
+      If query is non-Biblical, humbly refuse in the summary and return no passages.
+      Provide a DETAILED, FAITH-BUILDING summary, and list every passage you rely on
+      with its Book/Chapter/Verse reference, the verse text, and a short explanation.
+      Reply in language: ${language}. Reply as JSON.`,
+  maxOutputTokens: 8192,
+  jsonSchema: BIBLE_ANSWER_SCHEMA,
+});
+
+export const searchBible = async (query: string, language: string, { skipCache }: RequestOptions = {}): Promise<BibleAnswer> => {
+  const cached = skipCache ? null : await checkCache('BIBLE', query, language);
+  if (cached) return parseBibleAnswer(cached);
+
+  const provider = getProvider();
+  if (!provider.isReady()) return { summary: "MISSING_KEY", passages: [] };
+
+  try {
+    const response = await provider.generateText(bibleRequest(query, language));
+    const answer = parseBibleAnswer(response.text);
+    if (!answer.summary && answer.passages.length === 0) return { summary: "No answer found.", passages: [] };
+    saveToCache('BIBLE', query, answer, language);
+    return answer;
   } catch (error: any) {
     const msg = parseGenAIError(error);
-    return msg.includes('KEY') ? msg : `Error: ${msg}`;
+    return { summary: msg.includes('KEY') ? msg : `Error: ${msg}`, passages: [] };
   }
 };
 
-interface SermonOptions {
+export const streamBible = async (
+  query: string,
+  language: string,
+  onPartial: (partial: BibleAnswer) => void,
+  { signal, skipCache }: RequestOptions = {}
+): Promise<BibleAnswer> => {
+  const cached = skipCache ? null : await checkCache('BIBLE', query, language);
+  if (cached) return parseBibleAnswer(cached);
+
+  if (!getProvider().isReady()) return { summary: "MISSING_KEY", passages: [] };
+
+  try {
+    const { response, aborted } = await streamAccumulated(bibleRequest(query, language), (text) => onPartial(parsePartialBibleAnswer(text)), signal);
+    if (aborted) return parsePartialBibleAnswer(response.text);
+    const answer = parseBibleAnswer(response.text);
+    if (!answer.summary && answer.passages.length === 0) return { summary: "No answer found.", passages: [] };
+    saveToCache('BIBLE', query, answer, language);
+    return answer;
+  } catch (error: any) {
+    const msg = parseGenAIError(error);
+    return { summary: msg.includes('KEY') ? msg : `Error: ${msg}`, passages: [] };
+  }
+};
+
+export interface SeriesContext {
+  title: string;
+  week: number; // 1-based
+  weeks: number;
+  bigIdea: string;
+}
+
+export interface SermonOptions {
   audience: string;
   includeDeepContext: boolean;
+  // Set when the sermon is one week of a planned series
+  series?: SeriesContext;
 }
 
-export const generateSermon = async (topic: string, options: SermonOptions): Promise<string> => {
-  const cacheKey = `${topic}::${options.audience}::${options.includeDeepContext}`;
-  const cached = checkCache('SERMON', cacheKey);
-  if (cached) return cached;
+// A series week is cached apart from a one-off sermon on the same text
+export const sermonCacheOptions = ({ audience, includeDeepContext, series }: SermonOptions) => ({
+  audience,
+  includeDeepContext,
+  ...(series ? { series: series.title, week: series.week } : {}),
+});
 
-  const ai = getGenAI();
-  if (!getApiKey()) return "MISSING_KEY";
-  
+const sermonRequest = (topic: string, language: string, options: SermonOptions): TextRequest => {
   const { audience, includeDeepContext } = options;
   let prompt = `Role: World-Renowned Theologian. Task: Write a Sermon on "${topic}".
   Audience: ${audience}.
   Structure: Title, Prayer, Intro, 3 Points (Scripture, Explanation, Application), Conclusion.
-  Tone: Passionate, Biblical.`;
+  Format: Markdown. Use "# " for the title, "## " for each section, "### " for the Scripture, Explanation and Application of each point, and "> " for quoted scripture.
+  Tone: Passionate, Biblical.
+  Write in language: ${language}.`;
 
   if (includeDeepContext) {
     prompt += `\nInclude Hebrew/Greek definitions, Historical context, and Cross-references.`;
   }
+  if (options.series) {
+    const { title, week, weeks, bigIdea } = options.series;
+    prompt += `\nThis is week ${week} of ${weeks} in the sermon series "${title}". Build the whole sermon around its big idea: ${bigIdea}`;
+  }
+
+  return { tool: 'SERMON', model: resolveModel('SERMON'), prompt, maxOutputTokens: 8192 };
+};
+
+export const generateSermon = async (topic: string, language: string, options: SermonOptions, { skipCache }: RequestOptions = {}): Promise<string> => {
+  const cacheOptions = sermonCacheOptions(options);
+  const cached = skipCache ? null : await checkCache('SERMON', topic, language, cacheOptions);
+  if (cached) return cached;
+
+  const provider = getProvider();
+  if (!provider.isReady()) return "MISSING_KEY";
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: { maxOutputTokens: 8192 }
-    });
+    const response = await provider.generateText(sermonRequest(topic, language, options));
     const text = response.text || "Could not generate sermon.";
-    saveToCache('SERMON', cacheKey, text, 'en');
+    if (response.text) saveToCache('SERMON', topic, text, language, cacheOptions);
     return text;
   } catch (error: any) {
     const msg = parseGenAIError(error);
@@ -173,39 +330,216 @@ export const generateSermon = async (topic: string, options: SermonOptions): Pro
   }
 };
 
-export const getMissionaryBioWithMaps = async (name: string) => {
-  const cached = checkCache('BIO', name);
+export const streamSermon = async (
+  topic: string,
+  language: string,
+  options: SermonOptions,
+  onText: (partial: string) => void,
+  { signal, skipCache }: RequestOptions = {}
+): Promise<string> => {
+  const cacheOptions = sermonCacheOptions(options);
+  const cached = skipCache ? null : await checkCache('SERMON', topic, language, cacheOptions);
   if (cached) return cached;
 
-  const ai = getGenAI();
-  if (!getApiKey()) return { text: "MISSING_KEY", locations: [] };
+  if (!getProvider().isReady()) return "MISSING_KEY";
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Write a DETAILED biography of ${name}.
-      CONTEXT: The user is looking for Christian Leaders, Missionaries, or 'Generals of God'.
-      INCLUDE: Life Story, Conversion, Calling, Miracles, Legacy.`,
-      config: {
-        tools: [{ googleMaps: {} }],
-        maxOutputTokens: 8192,
+    const { response, aborted } = await streamAccumulated(sermonRequest(topic, language, options), onText, signal);
+    if (aborted) return response.text;
+    const text = response.text || "Could not generate sermon.";
+    if (response.text) saveToCache('SERMON', topic, text, language, cacheOptions);
+    return text;
+  } catch (error: any) {
+    const msg = parseGenAIError(error);
+    return msg.includes('KEY') ? msg : `Error: ${msg}`;
+  }
+};
+
+const SERIES_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'A memorable title for the whole series.' },
+    description: { type: 'string', description: 'One or two sentences on where the series leads the congregation.' },
+    weeks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'The sermon title for this week.' },
+          mainText: { type: 'string', description: 'The main Bible passage, e.g. "Romans 8:28-39".' },
+          bigIdea: { type: 'string', description: 'The one sentence the congregation should take home.' },
+        },
+        required: ['title', 'mainText', 'bigIdea'],
       },
-    });
+    },
+  },
+  required: ['title', 'description', 'weeks'],
+};
+
+const seriesCacheOptions = (weekCount: number, { audience, includeDeepContext }: SermonOptions) => ({ weeks: weekCount, audience, includeDeepContext });
+
+// Plans a series arc. Errors come back as an empty series with the message (or key
+// error code) in description, the way searchBible reports them in summary.
+export const planSermonSeries = async (
+  theme: string,
+  weekCount: number,
+  language: string,
+  options: SermonOptions,
+  { skipCache }: RequestOptions = {}
+): Promise<SermonSeries> => {
+  const base: SermonSeries = { title: '', theme, description: '', language, audience: options.audience, includeDeepContext: options.includeDeepContext, plannedWeeks: weekCount, weeks: [] };
+  const cacheOptions = seriesCacheOptions(weekCount, options);
+  const cached = skipCache ? null : await checkCache('SERIES', theme, language, cacheOptions);
+  if (cached) return cached;
+
+  const provider = getProvider();
+  if (!provider.isReady()) return { ...base, description: "MISSING_KEY" };
+
+  const prompt = `Role: World-Renowned Theologian and preaching pastor. Task: Plan a ${weekCount}-week sermon series on "${theme}".
+  Audience: ${options.audience}.
+  If it is a book of the Bible, walk through it in order; if it is a theme, build a clear arc from week to week.
+  Give the series a title and a short description, then exactly ${weekCount} weeks, each with a title, main text and big idea.
+  Write in language: ${language}. Reply as JSON.`;
+
+  try {
+    const response = await provider.generateText({ tool: 'SERMON', model: resolveModel('SERMON'), prompt, maxOutputTokens: 4096, jsonSchema: SERIES_PLAN_SCHEMA });
+    const json = JSON.parse(response.text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    const weeks = Array.isArray(json?.weeks) ? json.weeks.filter((w: any) => w && w.title).map((w: any) => ({
+      title: String(w.title),
+      mainText: String(w.mainText || ''),
+      bigIdea: String(w.bigIdea || ''),
+    })).slice(0, weekCount) : [];
+    if (weeks.length === 0) return { ...base, description: "Could not plan this series." };
+    const series: SermonSeries = { ...base, title: String(json.title || theme), description: String(json.description || ''), weeks };
+    saveSeriesProgress(series);
+    return series;
+  } catch (error: any) {
+    if (error instanceof SyntaxError) return { ...base, description: "Could not plan this series." };
+    const msg = parseGenAIError(error);
+    return { ...base, description: msg.includes('KEY') ? msg : `Error: ${msg}` };
+  }
+};
+
+// Stores the series with its progress over the planned copy, so it stays one History entry.
+// The key uses the requested length, as planSermonSeries looks it up.
+export const saveSeriesProgress = (series: SermonSeries) =>
+  saveToCache('SERIES', series.theme, series, series.language, seriesCacheOptions(series.plannedWeeks ?? series.weeks.length, series));
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten';
+
+const SECTION_ACTIONS: Record<SectionAction, string> = {
+  regenerate: 'Rewrite it from scratch with a fresh approach, keeping roughly the same length.',
+  expand: 'Expand it to about twice the length with more depth, illustration and scripture.',
+  shorten: 'Shorten it to about half the length, keeping the essential message.',
+};
+
+// Rewrites one section of a sermon, with the whole sermon as context. Returns the new
+// section body (no heading) or one of the key error codes.
+export const reviseSermonSection = async (
+  sermon: string,
+  section: string,
+  current: string,
+  action: SectionAction,
+  language: string,
+  options: SermonOptions
+): Promise<string> => {
+  const provider = getProvider();
+  if (!provider.isReady()) return "MISSING_KEY";
+
+  const prompt = `Role: World-Renowned Theologian. You are revising one section of this sermon for: ${options.audience}.
+
+  --- SERMON ---
+  ${sermon}
+  --- END SERMON ---
+
+  Section to revise: "${section}"
+  Current text of that section:
+  ${current || '(empty)'}
+
+  Task: ${SECTION_ACTIONS[action]} It must still fit the rest of the sermon.
+  Return ONLY the new text of that section in Markdown, without its heading and without any commentary.
+  Write in language: ${language}.`;
+
+  try {
+    const response = await provider.generateText({ tool: 'SERMON', model: resolveModel('SERMON'), prompt, maxOutputTokens: 4096 });
+    return response.text.trim().replace(/^#{1,6}\s+.*\n+/, '');
+  } catch (error: any) {
+    const msg = parseGenAIError(error);
+    return msg.includes('KEY') ? msg : `Error: ${msg}`;
+  }
+};
+
+// A short devotional on one day of a reading plan. Cached per passage list, so the
+// same day of a plan is not written twice.
+export const reflectOnReading = async (passages: string, language: string, { skipCache }: RequestOptions = {}): Promise<string> => {
+  const cached = skipCache ? null : await checkCache('REFLECTION', passages, language);
+  if (cached) return cached;
+
+  const provider = getProvider();
+  if (!provider.isReady()) return "MISSING_KEY";
 
+  const prompt = `Role: Devotional writer. Today's Bible reading is ${passages}.
+  Task: Write a short reflection (about 250 words) on what these chapters show about God and how to live it out today.
+  End with one question to ponder and a one-sentence prayer.
+  Format: Markdown, no title. Write in language: ${language}.`;
+
+  try {
+    const response = await provider.generateText({ tool: 'BIBLE', model: resolveModel('BIBLE'), prompt, maxOutputTokens: 2048 });
+    const text = response.text || "Could not write a reflection.";
+    if (response.text) saveToCache('REFLECTION', passages, text, language);
+    return text;
+  } catch (error: any) {
+    const msg = parseGenAIError(error);
+    return msg.includes('KEY') ? msg : `Error: ${msg}`;
+  }
+};
+
+const bioRequest = (name: string, language: string): TextRequest => ({
+  tool: 'BIO',
+  model: resolveModel('BIO'),
+  prompt: `Write a DETAILED biography of ${name}.
+      CONTEXT: The user is looking for Christian Leaders, Missionaries, or 'Generals of God'.
+      INCLUDE: Life Story, Conversion, Calling, Miracles, Legacy.
+      Reply in language: ${language}.`,
+  groundWithMaps: true,
+  maxOutputTokens: 8192,
+});
+
+export const getMissionaryBioWithMaps = async (name: string, language: string, { skipCache }: RequestOptions = {}): Promise<BioData> => {
+  const cached = skipCache ? null : await checkCache('BIO', name, language);
+  if (cached) return cached;
+
+  const provider = getProvider();
+  if (!provider.isReady()) return { text: "MISSING_KEY", locations: [] };
+
+  try {
+    const response = await provider.generateText(bioRequest(name, language));
     const text = response.text || "No biography found.";
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    let locations: Array<{ title: string; uri: string }> = [];
-
-    if (groundingChunks) {
-      groundingChunks.forEach((chunk: any) => {
-        if (chunk.maps) {
-          locations.push({ title: chunk.maps.title || "Location", uri: chunk.maps.uri || "#" });
-        }
-      });
-    }
+    const result = { text, locations: response.locations };
+    if (text !== "No biography found.") saveToCache('BIO', name, result, language);
+    return result;
+  } catch (error: any) {
+    const msg = parseGenAIError(error);
+    return { text: msg.includes('KEY') ? msg : `Error: ${msg}`, locations: [] };
+  }
+};
 
-    const result = { text, locations };
-    if (text !== "No biography found.") saveToCache('BIO', name, result, 'en');
+export const streamMissionaryBio = async (
+  name: string,
+  language: string,
+  onText: (partial: string) => void,
+  { signal, skipCache }: RequestOptions = {}
+): Promise<BioData> => {
+  const cached = skipCache ? null : await checkCache('BIO', name, language);
+  if (cached) return cached;
+
+  if (!getProvider().isReady()) return { text: "MISSING_KEY", locations: [] };
+
+  try {
+    const { response, aborted } = await streamAccumulated(bioRequest(name, language), onText, signal);
+    const text = response.text || "No biography found.";
+    const result = { text, locations: response.locations };
+    if (!aborted && text !== "No biography found.") saveToCache('BIO', name, result, language);
     return result;
   } catch (error: any) {
     const msg = parseGenAIError(error);
@@ -213,7 +547,7 @@ export const getMissionaryBioWithMaps = async (name: string) => {
   }
 };
 
-function base64ToWav(base64: string): string {
+function base64ToWav(base64: string): Blob {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const buffer = new ArrayBuffer(44 + len);
@@ -236,30 +570,38 @@ function base64ToWav(base64: string): string {
   view.setUint32(40, len, true);
   const bytes = new Uint8Array(buffer, 44);
   for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
-  const blob = new Blob([buffer], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
+  return new Blob([buffer], { type: 'audio/wav' });
 }
 
-export const speakText = async (text: string): Promise<string> => {
-  const ai = getGenAI();
-  if (!getApiKey()) throw new Error("MISSING_KEY");
-  const safeText = text.replace(/[*#_`]/g, '').substring(0, 4000); 
+// One request's worth of speech. Long text should be split with `splitNarration` and
+// read section by section; see NarrationPlayer.
+export const synthesizeWav = async (text: string, voice = loadPreferences().voices.readAloudVoice): Promise<Blob> => {
+  const provider = getProvider();
+  if (!provider.isReady()) throw new Error("MISSING_KEY");
+  const safeText = text.replace(/[*#_`]/g, '');
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: safeText }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } },
-        },
-      },
+    const base64Audio = await provider.synthesizeSpeech({
+      model: resolveModel('TTS'),
+      text: safeText,
+      voice,
     });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio generated.");
     return base64ToWav(base64Audio);
   } catch (e: any) {
     const msg = parseGenAIError(e);
     throw new Error(msg);
   }
+};
+
+export const speakText = async (text: string, voice?: string): Promise<string> =>
+  URL.createObjectURL(await synthesizeWav(text, voice));
+
+// Short samples for choosing a voice; each is synthesized once per visit
+const voicePreviews = new Map<string, Promise<string>>();
+
+export const previewVoice = (voice: string): Promise<string> => {
+  if (!voicePreviews.has(voice)) {
+    const sample = speakText(`Peace be with you. I am ${voice}. The Lord is my shepherd; I shall not want.`, voice);
+    voicePreviews.set(voice, sample.catch((e) => { voicePreviews.delete(voice); throw e; }));
+  }
+  return voicePreviews.get(voice)!;
 };
\ No newline at end of file
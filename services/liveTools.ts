@@ -0,0 +1,119 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { lookupReference, versesToPassage } from './bible';
+import { addBookmark } from './annotations';
+import { addPrayer } from './prayers';
+import { parseReference } from '../utils/scriptureRef';
+
+// --- Live Tools ---
+// Actions the voice counselor can take during a call. The model only asks; every call is
+// carried out here on the device, its result is sent back to the session, and what was
+// done is shown to the user as an action card.
+
+// Asks the app to show a biography in the Missions view; detail is the person's name
+export const OPEN_BIO_EVENT = 'faithwalk-open-bio';
+
+// Only ever called from the user's tap on an action card: leaving the Live view mid-call
+// is their choice, never the model's
+export const openBiography = (name: string) => window.dispatchEvent(new CustomEvent(OPEN_BIO_EVENT, { detail: name }));
+
+export const LIVE_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'show_passage',
+    description: "Look up a Bible passage in the King James Version and show it on the user's screen. Use it whenever you read or discuss a specific passage, and read from the returned text.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { reference: { type: Type.STRING, description: 'A Bible reference such as "John 3:16", "Psalm 23" or "Romans 8:28-39".' } },
+      required: ['reference'],
+    },
+  },
+  {
+    name: 'save_prayer_request',
+    description: "Save a prayer request to the user's prayer list. Only when the user asks for it to be kept or agrees when offered.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        request: { type: Type.STRING, description: 'The request in one or two sentences, in the words of the user where possible.' },
+        person: { type: Type.STRING, description: 'Who the prayer is for, if not the user.' },
+      },
+      required: ['request'],
+    },
+  },
+  {
+    name: 'bookmark_verse',
+    description: "Bookmark a Bible verse or passage the user liked, so they can find it later under Saved.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { reference: { type: Type.STRING, description: 'A Bible reference such as "Isaiah 41:10".' } },
+      required: ['reference'],
+    },
+  },
+  {
+    name: 'open_biography',
+    description: "Offer the biography of a missionary or figure of church history. A button appears on the user's screen to open it in the app's Missions view after or during the call.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { name: { type: Type.STRING, description: 'The person, e.g. "Hudson Taylor".' } },
+      required: ['name'],
+    },
+  },
+];
+
+export type LiveAction =
+  | { kind: 'passage'; reference: string; text: string }
+  | { kind: 'prayer'; text: string; person: string }
+  | { kind: 'bookmark'; reference: string; text: string }
+  | { kind: 'biography'; name: string };
+
+// `response` follows the API's convention: an "output" on success, an "error" otherwise
+export interface LiveToolResult {
+  response: { output: unknown } | { error: string };
+  action?: LiveAction;
+}
+
+const fail = (error: string): LiveToolResult => ({ response: { error } });
+
+const findPassage = async (reference: string, language: string) => {
+  const ref = parseReference(reference, language);
+  if (!ref) return null;
+  const verses = await lookupReference(ref);
+  return verses.length ? versesToPassage(ref, verses) : null;
+};
+
+// `withdrawn` is checked just before anything is saved, so a call the server cancels
+// while its passage is looked up leaves nothing behind
+export const runLiveTool = async (name: string, args: Record<string, unknown>, language: string, withdrawn: () => boolean = () => false): Promise<LiveToolResult> => {
+  const text = (key: string) => (typeof args[key] === 'string' ? (args[key] as string).trim() : '');
+  try {
+    switch (name) {
+      case 'show_passage': {
+        const passage = await findPassage(text('reference'), language);
+        if (!passage) return fail(`No passage found for "${text('reference')}".`);
+        return {
+          response: { output: { reference: passage.reference, text: passage.text } },
+          action: { kind: 'passage', reference: passage.reference, text: passage.text },
+        };
+      }
+      case 'save_prayer_request': {
+        if (!text('request')) return fail("The prayer request is empty.");
+        if (withdrawn()) return fail("The call was withdrawn.");
+        const prayer = addPrayer(text('request'), text('person'));
+        return { response: { output: "Saved to the prayer list." }, action: { kind: 'prayer', text: prayer.text, person: prayer.person } };
+      }
+      case 'bookmark_verse': {
+        const passage = await findPassage(text('reference'), language);
+        if (!passage) return fail(`No passage found for "${text('reference')}".`);
+        if (withdrawn()) return fail("The call was withdrawn.");
+        await addBookmark(passage.reference, passage.text);
+        return { response: { output: `Bookmarked ${passage.reference}.` }, action: { kind: 'bookmark', reference: passage.reference, text: passage.text } };
+      }
+      case 'open_biography': {
+        if (!text('name')) return fail("No name was given.");
+        return { response: { output: `Offered the biography of ${text('name')}; the user can open it in the Missions view from the screen.` }, action: { kind: 'biography', name: text('name') } };
+      }
+      default:
+        return fail(`Unknown tool "${name}".`);
+    }
+  } catch (e: any) {
+    return fail(e?.message || "The action failed.");
+  }
+};
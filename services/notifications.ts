@@ -0,0 +1,196 @@
+import { loadPlans, findPlan } from './readingPlans';
+import { addDays, planStatus, toDateKey } from '../utils/readingPlans';
+import { formatReferenceList } from '../utils/scriptureRef';
+import { verseOfTheDay } from '../utils/verseOfTheDay';
+
+// --- Reminders ---
+// Opt-in daily notifications: the verse of the day and one reminder per reading plan.
+// Their text is worked out here for the next two weeks, then handed to the native app's
+// bridge when running inside it, else to the service worker, which shows each one at the
+// chosen time. Nothing is sent to a push server, so reminders work offline.
+
+const REMINDERS_KEY = 'faithwalk_reminders_v1';
+export const REMINDERS_EVENT = 'faithwalk-reminders-updated';
+// Tapping a verse notification while the app is open loads the verse without a reload
+export const OPEN_VERSE_EVENT = 'faithwalk-open-verse';
+// Must match the tag sw.js listens for
+const PERIODIC_SYNC_TAG = 'faithwalk-reminders';
+const DAYS_AHEAD = 14;
+
+export interface ReminderSettings {
+  verseOfTheDay: boolean;
+  planReminders: boolean;
+  time: string; // "HH:MM", local
+}
+
+const DEFAULT_REMINDERS: ReminderSettings = { verseOfTheDay: false, planReminders: false, time: '07:00' };
+
+export interface ScheduledNotification {
+  id: string;    // also the notification tag, so a reminder is never shown twice
+  at: number;    // epoch ms
+  title: string;
+  body: string;
+  url: string;   // deep link opened on tap
+}
+
+export const loadReminderSettings = (): ReminderSettings => {
+  try {
+    const raw = localStorage.getItem(REMINDERS_KEY);
+    return raw ? { ...DEFAULT_REMINDERS, ...JSON.parse(raw) } : DEFAULT_REMINDERS;
+  } catch (e) {
+    return DEFAULT_REMINDERS;
+  }
+};
+
+export const saveReminderSettings = (settings: ReminderSettings) => {
+  localStorage.setItem(REMINDERS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(REMINDERS_EVENT));
+};
+
+// The parts of the Median.co (formerly GoNative) local notifications bridge used here
+interface NativeNotification {
+  id: string;
+  title: string;
+  body: string;
+  date: string;  // ISO 8601
+  url: string;
+}
+
+interface NativeNotificationBridge {
+  requestPermission?: () => Promise<boolean | undefined> | boolean | undefined;
+  cancelAll?: () => Promise<void> | void;
+  schedule: (notification: NativeNotification) => void;
+}
+
+type NativeWindow = Window & {
+  median?: { localNotifications?: NativeNotificationBridge };
+  gonative?: { localNotifications?: NativeNotificationBridge };
+};
+
+// Periodic Background Sync is not in the DOM typings yet
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval?: number }) => Promise<void>;
+  unregister: (tag: string) => Promise<void>;
+}
+
+const nativeBridge = (): NativeNotificationBridge | null => {
+  if (typeof window === 'undefined') return null;
+  const w = window as NativeWindow;
+  return w.median?.localNotifications ?? w.gonative?.localNotifications ?? null;
+};
+
+export type ReminderSupport = 'native' | 'web' | 'unsupported';
+
+export const reminderSupport = (): ReminderSupport => {
+  if (nativeBridge()) return 'native';
+  if ('Notification' in window && 'serviceWorker' in navigator) return 'web';
+  return 'unsupported';
+};
+
+export const requestReminderPermission = async (): Promise<boolean> => {
+  const bridge = nativeBridge();
+  if (bridge) {
+    try {
+      return (await bridge.requestPermission?.()) !== false;
+    } catch (e) {
+      console.warn("Notification permission request failed", e);
+      return false;
+    }
+  }
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+const atTime = (dateKey: string, time: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(y, m - 1, d, hours || 0, minutes || 0).getTime();
+};
+
+// Today's reminders are included even when their time has passed; the service worker
+// decides whether they are still worth showing
+export const upcomingNotifications = (settings: ReminderSettings, now = new Date()): ScheduledNotification[] => {
+  const today = toDateKey(now);
+  const plans = loadPlans();
+  const notifications: ScheduledNotification[] = [];
+
+  for (let i = 0; i < DAYS_AHEAD; i++) {
+    const date = addDays(today, i);
+    const at = atTime(date, settings.time);
+
+    if (settings.verseOfTheDay) {
+      const verse = verseOfTheDay(new Date(at));
+      notifications.push({
+        id: `verse-${date}`,
+        at,
+        title: `Verse of the Day · ${verse.reference}`,
+        body: verse.text,
+        url: `/?verse=${encodeURIComponent(verse.reference)}`,
+      });
+    }
+
+    if (settings.planReminders) {
+      plans.progress.forEach(progress => {
+        const plan = findPlan(progress.planId, plans.custom);
+        // Past the plan's last day
+        if (!plan || addDays(progress.startDate, plan.days.length - 1) < date) return;
+        const status = planStatus(plan, progress, new Date(at));
+        if (status.finished || progress.completed.includes(status.today)) return;
+        // Only today's reminder knows how far behind the reader is
+        const behind = i === 0 ? status.missed.length : 0;
+        notifications.push({
+          id: `plan-${plan.id}-${date}`,
+          at,
+          title: plan.name,
+          body: `Day ${status.today + 1}: ${formatReferenceList(plan.days[status.today])}` +
+            (behind > 0 ? ` · ${behind} ${behind === 1 ? 'day' : 'days'} to catch up` : ''),
+          url: '/?view=plans',
+        });
+      });
+    }
+  }
+  return notifications;
+};
+
+// Replaces every scheduled reminder with the current schedule. Called on start-up and
+// whenever the settings or the reading plans change.
+export const syncReminders = async (settings = loadReminderSettings()) => {
+  const enabled = settings.verseOfTheDay || settings.planReminders;
+  const bridge = nativeBridge();
+
+  if (bridge) {
+    try {
+      await bridge.cancelAll?.();
+      if (!enabled) return;
+      upcomingNotifications(settings)
+        .filter(n => n.at > Date.now())
+        .forEach(n => bridge.schedule({
+          id: n.id,
+          title: n.title,
+          body: n.body,
+          date: new Date(n.at).toISOString(),
+          url: new URL(n.url, window.location.origin).href,
+        }));
+    } catch (e) {
+      console.warn("Native reminders failed", e);
+    }
+    return;
+  }
+
+  if (!('serviceWorker' in navigator)) return;
+  const granted = 'Notification' in window && Notification.permission === 'granted';
+  const notifications = enabled && granted ? upcomingNotifications(settings) : [];
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'SCHEDULE_NOTIFICATIONS', notifications });
+    // Where notification triggers are missing, periodic sync wakes the worker to check
+    const { periodicSync } = registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager };
+    if (!periodicSync) return;
+    if (notifications.length > 0) await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 12 * 60 * 60 * 1000 });
+    else await periodicSync.unregister(PERIODIC_SYNC_TAG);
+  } catch (e) {
+    // Periodic sync needs an installed app; the triggers and start-up check still apply
+    console.warn("Reminder scheduling incomplete", e);
+  }
+};
@@ -0,0 +1,39 @@
+// --- Prayer Requests ---
+// Requests the user asked the voice counselor to keep. A short list of text, so it lives
+// in localStorage like the reading plans.
+
+const PRAYERS_KEY = 'faithwalk_prayers_v1';
+export const PRAYERS_EVENT = 'faithwalk-prayers-updated';
+
+export interface PrayerRequest {
+  id: string;
+  text: string;
+  person: string; // who it is for; empty when it is for the user
+  createdAt: number;
+  answeredAt: number | null;
+}
+
+export const loadPrayers = (): PrayerRequest[] => {
+  try {
+    const raw = localStorage.getItem(PRAYERS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const savePrayers = (prayers: PrayerRequest[]) => {
+  localStorage.setItem(PRAYERS_KEY, JSON.stringify(prayers));
+  window.dispatchEvent(new Event(PRAYERS_EVENT));
+};
+
+export const addPrayer = (text: string, person = ''): PrayerRequest => {
+  const prayer: PrayerRequest = { id: `prayer-${Date.now()}`, text: text.trim(), person: person.trim(), createdAt: Date.now(), answeredAt: null };
+  savePrayers([prayer, ...loadPrayers()]);
+  return prayer;
+};
+
+export const togglePrayerAnswered = (id: string) =>
+  savePrayers(loadPrayers().map(p => p.id === id ? { ...p, answeredAt: p.answeredAt ? null : Date.now() } : p));
+
+export const deletePrayer = (id: string) => savePrayers(loadPrayers().filter(p => p.id !== id));
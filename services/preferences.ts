@@ -0,0 +1,104 @@
+import { AUDIENCES } from '../constants';
+import { DEFAULT_PERSONA } from '../utils/personas';
+
+// --- Preferences ---
+// App-wide choices kept in one typed record. It carries a version: when its shape changes,
+// bump PREFERENCES_VERSION and add a step to `migrate`, so records saved by older builds
+// are upgraded on load instead of being dropped.
+
+const PREFERENCES_KEY = 'faithwalk_preferences';
+export const PREFERENCES_EVENT = 'faithwalk-preferences-updated';
+const PREFERENCES_VERSION = 1;
+
+// Written by earlier builds before everything moved here
+const LEGACY_VOICE_SETTINGS_KEY = 'faithwalk_voice_settings_v1';
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+// The Live counselor's persona and the voices used for Live and for read-aloud. A null
+// Live voice means the persona's own.
+export interface VoiceSettings {
+  persona: string;
+  liveVoice: string | null;
+  readAloudVoice: string;
+}
+
+export interface Preferences {
+  version: typeof PREFERENCES_VERSION;
+  language: string;
+  theme: ThemePreference;
+  // Default target audience for new sermons
+  audience: string;
+  voices: VoiceSettings;
+  // Live counselor playback
+  volume: number;
+  playbackSpeed: number;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  version: PREFERENCES_VERSION,
+  language: 'en-US',
+  theme: 'light',
+  audience: AUDIENCES[0],
+  voices: { persona: DEFAULT_PERSONA.id, liveVoice: null, readAloudVoice: 'Fenrir' },
+  volume: 0.8,
+  playbackSpeed: 1.0,
+};
+
+export const PLAYBACK_SPEEDS = [0.8, 1.0, 1.2, 1.5];
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Stored records are read field by field; a missing or mistyped field takes its default
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const stringOr = (value: unknown, fallback: string) => typeof value === 'string' && value ? value : fallback;
+const numberOr = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const THEMES: ThemePreference[] = ['light', 'dark', 'system'];
+
+const migrateVoices = (stored: unknown): VoiceSettings => {
+  const voices = isRecord(stored) ? stored : {};
+  const defaults = DEFAULT_PREFERENCES.voices;
+  return {
+    persona: stringOr(voices.persona, defaults.persona),
+    liveVoice: typeof voices.liveVoice === 'string' ? voices.liveVoice : defaults.liveVoice,
+    readAloudVoice: stringOr(voices.readAloudVoice, defaults.readAloudVoice),
+  };
+};
+
+// Brings a stored record of any earlier version up to the current one
+const migrate = (stored: unknown): Preferences => {
+  if (!isRecord(stored)) {
+    // First run of this store: pick up the voice settings saved before it existed
+    return { ...DEFAULT_PREFERENCES, voices: migrateVoices(readJson(LEGACY_VOICE_SETTINGS_KEY)) };
+  }
+  return {
+    version: PREFERENCES_VERSION,
+    language: stringOr(stored.language, DEFAULT_PREFERENCES.language),
+    theme: THEMES.find(theme => theme === stored.theme) ?? DEFAULT_PREFERENCES.theme,
+    audience: stringOr(stored.audience, DEFAULT_PREFERENCES.audience),
+    voices: migrateVoices(stored.voices),
+    volume: numberOr(stored.volume, DEFAULT_PREFERENCES.volume),
+    playbackSpeed: numberOr(stored.playbackSpeed, DEFAULT_PREFERENCES.playbackSpeed),
+  };
+};
+
+export const loadPreferences = (): Preferences => migrate(readJson(PREFERENCES_KEY));
+
+export const savePreferences = (patch: Partial<Omit<Preferences, 'version'>>): Preferences => {
+  const next = { ...loadPreferences(), ...patch };
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+  localStorage.removeItem(LEGACY_VOICE_SETTINGS_KEY);
+  window.dispatchEvent(new Event(PREFERENCES_EVENT));
+  return next;
+};
+
+export const saveVoiceSettings = (voices: VoiceSettings) => savePreferences({ voices });
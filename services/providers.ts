@@ -0,0 +1,381 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+
+// --- Model Provider Layer ---
+// Every text/speech call in services/gemini.ts goes through a ModelProvider so the
+// same tools can run against Gemini, an OpenAI-compatible local server (Ollama,
+// LM Studio, llama.cpp) or a deterministic fixture backend for tests and demos.
+
+export type ProviderId = 'gemini' | 'openai' | 'fixture';
+export type ModelTool = 'BIBLE' | 'SERMON' | 'BIO' | 'TTS';
+
+export interface Location { title: string; uri: string; }
+
+export interface TextRequest {
+  tool: Exclude<ModelTool, 'TTS'>;
+  model: string;
+  prompt: string;
+  maxOutputTokens?: number;
+  // Ask the backend to ground the answer in map places (Gemini only, ignored elsewhere)
+  groundWithMaps?: boolean;
+  // JSON Schema the reply must conform to; the reply text is then a JSON document
+  jsonSchema?: object;
+}
+
+export interface TextResponse {
+  text: string;
+  locations: Location[];
+}
+
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voice: string;
+}
+
+// Receives each new piece of text as it arrives
+export type TextListener = (delta: string) => void;
+
+export interface ModelProvider {
+  id: ProviderId;
+  isReady: () => boolean;
+  generateText: (req: TextRequest) => Promise<TextResponse>;
+  // Streams deltas to onText and resolves with the full response; rejects if signal aborts
+  streamText: (req: TextRequest, onText: TextListener, signal?: AbortSignal) => Promise<TextResponse>;
+  // Resolves to base64 encoded 16-bit PCM at 24kHz
+  synthesizeSpeech: (req: SpeechRequest) => Promise<string>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  baseUrl: string;
+  apiKey: string;
+  models: Partial<Record<ModelTool, string>>;
+}
+
+export const DEFAULT_MODELS: Record<ProviderId, Record<ModelTool, string>> = {
+  gemini: {
+    BIBLE: 'gemini-3-flash-preview',
+    SERMON: 'gemini-3-flash-preview',
+    BIO: 'gemini-3-flash-preview',
+    TTS: 'gemini-2.5-flash-preview-tts',
+  },
+  openai: {
+    BIBLE: 'llama3.1',
+    SERMON: 'llama3.1',
+    BIO: 'llama3.1',
+    TTS: 'tts-1',
+  },
+  fixture: {
+    BIBLE: 'fixture-text',
+    SERMON: 'fixture-text',
+    BIO: 'fixture-text',
+    TTS: 'fixture-tts',
+  },
+};
+
+const CONFIG_KEY = 'faithwalk_provider_config_v1';
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+// A Gemini key pasted in Settings; takes precedence over the build's own key
+const API_KEY_STORAGE = 'user_gemini_api_key';
+
+// Safe API Key retrieval: LocalStorage (Legacy support) -> Vite -> React App -> Standard Node
+export const getApiKey = () => {
+  let key = '';
+
+  // 1. Check Local Storage (Legacy/Fallback)
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(API_KEY_STORAGE);
+    if (stored) return stored;
+  }
+
+  // 2. Check Environment Variables
+  try {
+    // @ts-ignore
+    if (import.meta?.env?.VITE_API_KEY) return import.meta.env.VITE_API_KEY;
+    // @ts-ignore
+    if (process.env.REACT_APP_API_KEY) return process.env.REACT_APP_API_KEY;
+    // @ts-ignore
+    if (process.env.API_KEY) return process.env.API_KEY;
+  } catch (e) {
+    console.warn("Environment variable access failed");
+  }
+  return key;
+};
+
+export const hasSavedApiKey = () => typeof window !== 'undefined' && !!localStorage.getItem(API_KEY_STORAGE);
+
+export const saveApiKey = (key: string) => localStorage.setItem(API_KEY_STORAGE, key.trim());
+
+export const clearApiKey = () => localStorage.removeItem(API_KEY_STORAGE);
+
+// Re-initialize AI when key changes
+export const getGenAI = () => {
+  const key = getApiKey();
+  return new GoogleGenAI({ apiKey: key });
+};
+
+const getEnvProvider = (): ProviderId | null => {
+  const env = import.meta.env.VITE_MODEL_PROVIDER;
+  return env === 'gemini' || env === 'openai' || env === 'fixture' ? env : null;
+};
+
+export const getProviderConfig = (): ProviderConfig => {
+  const fallback: ProviderConfig = { provider: getEnvProvider() || 'gemini', baseUrl: DEFAULT_BASE_URL, apiKey: '', models: {} };
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const saveProviderConfig = (config: Partial<ProviderConfig>) => {
+  const next = { ...getProviderConfig(), ...config };
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const resolveModel = (tool: ModelTool, config: ProviderConfig = getProviderConfig()): string => {
+  return config.models[tool] || DEFAULT_MODELS[config.provider][tool];
+};
+
+// --- Gemini ---
+const geminiConfig = ({ maxOutputTokens, groundWithMaps, jsonSchema }: TextRequest, signal?: AbortSignal) => ({
+  ...(groundWithMaps ? { tools: [{ googleMaps: {} }] } : {}),
+  ...(jsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: jsonSchema } : {}),
+  maxOutputTokens,
+  abortSignal: signal,
+});
+
+const collectLocations = (response: any, locations: Location[]) => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  if (groundingChunks) {
+    groundingChunks.forEach((chunk: any) => {
+      if (chunk.maps && !locations.some(l => l.uri === chunk.maps.uri)) {
+        locations.push({ title: chunk.maps.title || "Location", uri: chunk.maps.uri || "#" });
+      }
+    });
+  }
+};
+
+const abortError = () => new DOMException('Generation stopped.', 'AbortError');
+
+const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  isReady: () => !!getApiKey(),
+  generateText: async (req) => {
+    const response = await getGenAI().models.generateContent({
+      model: req.model,
+      contents: req.prompt,
+      config: geminiConfig(req),
+    });
+
+    const locations: Location[] = [];
+    collectLocations(response, locations);
+    return { text: response.text || '', locations };
+  },
+  streamText: async (req, onText, signal) => {
+    const stream = await getGenAI().models.generateContentStream({
+      model: req.model,
+      contents: req.prompt,
+      config: geminiConfig(req, signal),
+    });
+
+    let text = '';
+    const locations: Location[] = [];
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw abortError();
+      const delta = chunk.text || '';
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      collectLocations(chunk, locations);
+    }
+    return { text, locations };
+  },
+  synthesizeSpeech: async ({ model, text, voice }) => {
+    const response = await getGenAI().models.generateContent({
+      model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+      },
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio generated.");
+    return base64Audio;
+  },
+};
+
+// --- OpenAI-compatible (local servers such as Ollama) ---
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const createOpenAIProvider = (config: ProviderConfig): ModelProvider => {
+  const base = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const res = await fetch(`${base}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!res.ok) {
+      // Error bodies follow the { error: { message } } shape, which parseGenAIError understands
+      throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+    }
+    return res;
+  };
+
+  const chatBody = ({ model, prompt, maxOutputTokens, jsonSchema }: TextRequest) => ({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    max_tokens: maxOutputTokens,
+    ...(jsonSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } } } : {}),
+  });
+
+  return {
+    id: 'openai',
+    isReady: () => true,
+    generateText: async (req) => {
+      const res = await post('/chat/completions', chatBody(req));
+      const data = await res.json();
+      return { text: data.choices?.[0]?.message?.content || '', locations: [] };
+    },
+    streamText: async (req, onText, signal) => {
+      const res = await post('/chat/completions', { ...chatBody(req), stream: true }, signal);
+      if (!res.body) throw new Error("Streaming not supported by server.");
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      let text = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (!payload || payload === '[DONE]') continue;
+          try {
+            const delta = JSON.parse(payload).choices?.[0]?.delta?.content || '';
+            if (delta) {
+              text += delta;
+              onText(delta);
+            }
+          } catch (e) {}
+        }
+      }
+      return { text, locations: [] };
+    },
+    synthesizeSpeech: async ({ model, text, voice }) => {
+      // 'pcm' is raw 24kHz 16-bit little-endian, the same format Gemini TTS returns
+      const res = await post('/audio/speech', { model, input: text, voice: voice.toLowerCase(), response_format: 'pcm' });
+      return bytesToBase64(new Uint8Array(await res.arrayBuffer()));
+    },
+  };
+};
+
+// --- Fixture (deterministic, offline) ---
+const FIXTURE_TEXT: Record<Exclude<ModelTool, 'TTS'>, string> = {
+  BIBLE: `**John 3:16** - "For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life."
+
+God's love is the foundation of the Gospel. See also **Romans 5:8** and **1 John 4:9-10**.`,
+  SERMON: `# The Love That Sent a Son
+
+## Opening Prayer
+Father, open our hearts to Your Word today. Amen.
+
+## Introduction
+Every story of redemption begins with love.
+
+## Point 1: Love Initiates (John 3:16)
+God moved first. Application: receive before you respond.
+
+## Point 2: Love Sacrifices (Romans 5:8)
+Christ died while we were still sinners. Application: love without conditions.
+
+## Point 3: Love Transforms (2 Corinthians 5:17)
+In Christ we are new creations. Application: walk in newness of life.
+
+## Conclusion
+Respond to the love that sent a Son.`,
+  BIO: `## Early Life
+Born into a humble family, the subject came to faith as a young adult.
+
+## Calling
+A clear call to missions led to years of service abroad.
+
+## Legacy
+Churches, schools and translated Scriptures remain to this day.`,
+};
+
+const FIXTURE_JSON: Partial<Record<ModelTool, object>> = {
+  BIBLE: {
+    summary: "God's love is the foundation of the Gospel: He gave His Son so that all who believe might live.",
+    passages: [
+      {
+        reference: 'John 3:16',
+        text: 'For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life.',
+        explanation: 'The heart of the Gospel: love that gives, and life offered to anyone who believes.',
+      },
+      {
+        reference: 'Romans 5:8',
+        text: 'But God commendeth his love toward us, in that, while we were yet sinners, Christ died for us.',
+        explanation: 'God did not wait for us to improve before loving us.',
+      },
+    ],
+  },
+  // Series plans are the only structured sermon request
+  SERMON: {
+    title: 'Loved First',
+    description: "A journey through God's initiating love.",
+    weeks: [
+      { title: 'The Love That Sent', mainText: 'John 3:16-17', bigIdea: 'God moved toward us before we moved toward Him.' },
+      { title: 'While We Were Sinners', mainText: 'Romans 5:6-11', bigIdea: 'Grace meets us at our worst.' },
+      { title: 'Love One Another', mainText: '1 John 4:7-12', bigIdea: 'Loved people love people.' },
+    ],
+  },
+};
+
+const fixtureResponse = ({ tool, groundWithMaps, jsonSchema }: TextRequest): TextResponse => ({
+  text: jsonSchema && FIXTURE_JSON[tool] ? JSON.stringify(FIXTURE_JSON[tool]) : FIXTURE_TEXT[tool],
+  locations: groundWithMaps ? [{ title: 'Jerusalem', uri: 'https://maps.google.com/?q=Jerusalem' }] : [],
+});
+
+const fixtureProvider: ModelProvider = {
+  id: 'fixture',
+  isReady: () => true,
+  generateText: async (req) => fixtureResponse(req),
+  // Replays the canned answer a few words at a time so streaming UIs can be exercised
+  streamText: async (req, onText, signal) => {
+    const response = fixtureResponse(req);
+    const pieces = response.text.match(/\S+\s*/g) || [];
+    for (let i = 0; i < pieces.length; i += 4) {
+      if (signal?.aborted) throw abortError();
+      onText(pieces.slice(i, i + 4).join(''));
+      await new Promise(resolve => setTimeout(resolve, 40));
+    }
+    return response;
+  },
+  // One second of silence keeps audio players working without a backend
+  synthesizeSpeech: async () => bytesToBase64(new Uint8Array(24000 * 2)),
+};
+
+export const getProvider = (config: ProviderConfig = getProviderConfig()): ModelProvider => {
+  switch (config.provider) {
+    case 'openai': return createOpenAIProvider(config);
+    case 'fixture': return fixtureProvider;
+    default: return geminiProvider;
+  }
+};
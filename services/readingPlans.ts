@@ -0,0 +1,59 @@
+import { BUILT_IN_PLANS, CustomPlanSpec, PlanProgress, ReadingPlan, buildCustomPlan, toDateKey } from '../utils/readingPlans';
+
+// --- Reading Plan Storage ---
+// Custom plan definitions and the progress of every plan the user has started. Small
+// enough for localStorage, like the history retention settings.
+
+const PLANS_KEY = 'faithwalk_reading_plans_v1';
+export const PLANS_EVENT = 'faithwalk-plans-updated';
+
+export interface StoredPlans {
+  custom: CustomPlanSpec[];
+  progress: PlanProgress[];
+}
+
+const EMPTY: StoredPlans = { custom: [], progress: [] };
+
+export const loadPlans = (): StoredPlans => {
+  try {
+    const raw = localStorage.getItem(PLANS_KEY);
+    return raw ? { ...EMPTY, ...JSON.parse(raw) } : EMPTY;
+  } catch (e) {
+    return EMPTY;
+  }
+};
+
+export const savePlans = (plans: StoredPlans) => {
+  localStorage.setItem(PLANS_KEY, JSON.stringify(plans));
+  window.dispatchEvent(new Event(PLANS_EVENT));
+};
+
+export const findPlan = (id: string, custom: CustomPlanSpec[]): ReadingPlan | null => {
+  const builtIn = BUILT_IN_PLANS.find(p => p.id === id);
+  if (builtIn) return builtIn;
+  const spec = custom.find(c => c.id === id);
+  return spec ? buildCustomPlan(spec) : null;
+};
+
+export const startPlan = (plans: StoredPlans, planId: string): StoredPlans => ({
+  ...plans,
+  progress: [...plans.progress.filter(p => p.planId !== planId), { planId, startDate: toDateKey(new Date()), completed: [] }],
+});
+
+// Leaving a custom plan deletes it; built-in plans stay in the catalog
+export const leavePlan = (plans: StoredPlans, planId: string): StoredPlans => ({
+  custom: plans.custom.filter(c => c.id !== planId),
+  progress: plans.progress.filter(p => p.planId !== planId),
+});
+
+export const updateProgress = (plans: StoredPlans, progress: PlanProgress): StoredPlans => ({
+  ...plans,
+  progress: plans.progress.map(p => p.planId === progress.planId ? progress : p),
+});
+
+export const toggleDay = (progress: PlanProgress, day: number): PlanProgress => ({
+  ...progress,
+  completed: progress.completed.includes(day)
+    ? progress.completed.filter(d => d !== day)
+    : [...progress.completed, day].sort((a, b) => a - b),
+});
@@ -0,0 +1,42 @@
+import { STORES, withStore, requestToPromise } from './db';
+import { ConversationTurn } from '../types';
+
+// --- Session Recordings ---
+// Opt-in recordings of Live sessions. The transcript is copied in, so a recording keeps
+// its words even after History retention removes the conversation.
+
+export interface Recording {
+  id: string;              // the conversation's History id
+  createdAt: number;
+  duration: number;        // seconds
+  size: number;            // bytes
+  language: string;
+  turns: ConversationTurn[];
+  audio: Blob;             // audio/wav
+}
+
+export const RECORDINGS_EVENT = 'faithwalk-recordings-updated';
+
+const dispatchUpdate = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(RECORDINGS_EVENT));
+};
+
+export const saveRecording = async (recording: Omit<Recording, 'size'>) => {
+  await withStore(STORES.RECORDINGS, 'readwrite', (store) => { store.put({ ...recording, size: recording.audio.size }); });
+  dispatchUpdate();
+};
+
+export const deleteRecording = async (id: string) => {
+  await withStore(STORES.RECORDINGS, 'readwrite', (store) => { store.delete(id); });
+  dispatchUpdate();
+};
+
+// Newest first
+export const getRecordings = async (): Promise<Recording[]> => {
+  try {
+    const items = await withStore(STORES.RECORDINGS, 'readonly', (store) => requestToPromise(store.index('createdAt').getAll())) as Recording[];
+    return items.reverse();
+  } catch (e) {
+    return [];
+  }
+};
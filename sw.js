@@ -1,4 +1,6 @@
 const CACHE_NAME = 'faithwalk-cache-v1';
+// Reminder schedule and delivery log; kept across asset cache upgrades
+const REMINDER_CACHE = 'faithwalk-reminders';
 const ASSETS_TO_CACHE = [
   '/',
   '/index.html',
@@ -6,8 +8,25 @@ const ASSETS_TO_CACHE = [
   '/App.tsx',
   '/services/gemini.ts',
   '/services/cache.ts',
+  '/services/db.ts',
+  '/services/providers.ts',
+  '/services/bible.ts',
+  '/services/annotations.ts',
+  '/services/citations.ts',
+  '/services/readingPlans.ts',
+  '/services/notifications.ts',
+  '/services/recordings.ts',
+  '/services/prayers.ts',
+  '/services/liveTools.ts',
+  '/services/preferences.ts',
+  '/services/audioLibrary.ts',
+  '/utils/verseOfTheDay.ts',
+  '/utils/sessionRecorder.ts',
+  '/utils/personas.ts',
+  '/utils/narration.ts',
   '/types.ts',
   '/utils/audioUtils.ts',
+  '/utils/captureWorklet.ts',
   'https://cdn.tailwindcss.com',
   'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600;700&family=Merriweather:wght@300;400;700&display=swap'
 ];
@@ -28,7 +47,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== CACHE_NAME && cacheName !== REMINDER_CACHE) {
             return caches.delete(cacheName);
           }
         })
@@ -67,4 +86,82 @@ self.addEventListener('fetch', (event) => {
       });
     })
   );
-});
\ No newline at end of file
+});
+
+// --- Reminders ---
+// The page sends the next two weeks of reminders (verse of the day, reading plans).
+// Browsers with notification triggers show them on time by themselves; elsewhere the
+// worker shows whatever is due when periodic sync wakes it or the app is opened.
+
+const SCHEDULE_URL = '/__reminders/schedule.json';
+const SHOWN_URL = '/__reminders/shown.json';
+// A reminder this late is dropped rather than shown
+const STALE_MS = 6 * 60 * 60 * 1000;
+
+const readJson = async (url) => {
+  const cache = await caches.open(REMINDER_CACHE);
+  const response = await cache.match(url);
+  return response ? response.json() : [];
+};
+
+const writeJson = async (url, value) => {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(url, new Response(JSON.stringify(value), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const showReminder = (n, extra = {}) =>
+  self.registration.showNotification(n.title, { body: n.body, tag: n.id, data: { url: n.url }, ...extra });
+
+const showDueReminders = async () => {
+  const schedule = await readJson(SCHEDULE_URL);
+  const shown = new Set(await readJson(SHOWN_URL));
+  const now = Date.now();
+  const due = schedule.filter((n) => n.at <= now && now - n.at < STALE_MS && !shown.has(n.id));
+  await Promise.all(due.map((n) => showReminder(n)));
+  due.forEach((n) => shown.add(n.id));
+  // Forget ids that have left the schedule
+  await writeJson(SHOWN_URL, schedule.map((n) => n.id).filter((id) => shown.has(id)));
+};
+
+const scheduleReminders = async (notifications) => {
+  const shown = new Set(await readJson(SHOWN_URL));
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  // Cancel reminders still waiting on a trigger; ones already on screen stay
+  pending.forEach((n) => {
+    if (n.showTrigger && n.showTrigger.timestamp > Date.now()) n.close();
+  });
+
+  if ('showTrigger' in Notification.prototype && typeof TimestampTrigger !== 'undefined') {
+    const future = notifications.filter((n) => n.at > Date.now());
+    await Promise.all(future.map((n) => showReminder(n, { showTrigger: new TimestampTrigger(n.at) })));
+    // The browser delivers these itself
+    future.forEach((n) => shown.add(n.id));
+  }
+  await writeJson(SCHEDULE_URL, notifications);
+  await writeJson(SHOWN_URL, [...shown]);
+  await showDueReminders();
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SCHEDULE_NOTIFICATIONS') {
+    event.waitUntil(scheduleReminders(event.data.notifications || []));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'faithwalk-reminders') event.waitUntil(showDueReminders());
+});
+
+// Open the deep link in an existing window when there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (!client) return self.clients.openWindow(url);
+      client.postMessage({ type: 'OPEN_URL', url });
+      return client.focus();
+    })
+  );
+});
@@ -7,6 +7,9 @@ export enum View {
   SERMON = 'SERMON',
   AUDIO_COMPANION = 'AUDIO_COMPANION',
   HISTORY = 'HISTORY',
+  READING_PLANS = 'READING_PLANS',
+  ANNOTATIONS = 'ANNOTATIONS',
+  SETTINGS = 'SETTINGS',
 }
 
 export interface BibleResult {
@@ -15,11 +18,50 @@ export interface BibleResult {
   explanation: string;
 }
 
+export interface BibleAnswer {
+  summary: string;
+  passages: BibleResult[];
+}
+
 export interface Sermon {
   title: string;
   content: string; // Markdown
 }
 
+export interface SeriesWeek {
+  title: string;
+  mainText: string;
+  bigIdea: string;
+  sermon?: string;    // Markdown, once the week has been written
+  preached?: boolean;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+  at: number; // when the turn started
+}
+
+// A whole voice session with the counselor, as stored in History
+export interface Conversation {
+  turns: ConversationTurn[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface SermonSeries {
+  title: string;
+  theme: string;      // the book or theme the series was planned from
+  description: string;
+  language: string;
+  audience: string;
+  includeDeepContext: boolean;
+  // The length that was asked for, which keys the series in History. The model may
+  // return fewer weeks. Missing on series planned before it was stored.
+  plannedWeeks?: number;
+  weeks: SeriesWeek[];
+}
+
 export interface BioResult {
   name: string;
   bio: string;
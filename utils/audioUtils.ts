@@ -1,19 +1,16 @@
 import { Blob } from '@google/genai';
 
-export const pcmToWav = (pcmData: Float32Array, sampleRate: number): ArrayBuffer => {
-  const buffer = new ArrayBuffer(44 + pcmData.length * 2);
-  const view = new DataView(buffer);
-
-  const writeString = (view: DataView, offset: number, string: string) => {
+const writeWavHeader = (view: DataView, dataLength: number, sampleRate: number) => {
+  const writeString = (offset: number, string: string) => {
     for (let i = 0; i < string.length; i++) {
       view.setUint8(offset + i, string.charCodeAt(i));
     }
   };
 
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + pcmData.length * 2, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
   view.setUint32(16, 16, true);
   view.setUint16(20, 1, true);
   view.setUint16(22, 1, true);
@@ -21,8 +18,14 @@ export const pcmToWav = (pcmData: Float32Array, sampleRate: number): ArrayBuffer
   view.setUint32(28, sampleRate * 2, true);
   view.setUint16(32, 2, true);
   view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, pcmData.length * 2, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+};
+
+export const pcmToWav = (pcmData: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + pcmData.length * 2);
+  const view = new DataView(buffer);
+  writeWavHeader(view, pcmData.length * 2, sampleRate);
 
   let offset = 44;
   for (let i = 0; i < pcmData.length; i++, offset += 2) {
@@ -33,30 +36,34 @@ export const pcmToWav = (pcmData: Float32Array, sampleRate: number): ArrayBuffer
   return buffer;
 };
 
-export const createPcmBlob = (data: Float32Array): Blob => {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values between -1 and 1 before converting to PCM16
-    const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
-  // Custom manual base64 encoding
-  let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  const base64 = btoa(binary);
+// Joins mono 16-bit WAV files of the same rate, each with a plain 44-byte header, into one
+export const joinWavs = (parts: ArrayBuffer[], sampleRate: number): ArrayBuffer => {
+  const dataLength = parts.reduce((sum, part) => sum + part.byteLength - 44, 0);
+  const buffer = new ArrayBuffer(44 + dataLength);
+  writeWavHeader(new DataView(buffer), dataLength, sampleRate);
+  const bytes = new Uint8Array(buffer);
+  let offset = 44;
+  parts.forEach(part => {
+    bytes.set(new Uint8Array(part, 44), offset);
+    offset += part.byteLength - 44;
+  });
+  return buffer;
+};
 
-  return {
-    data: base64,
-    mimeType: 'audio/pcm;rate=16000',
-  };
+// String.fromCharCode over slices rather than byte by byte; slices stay under the argument limit
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
 };
 
+export const createPcmBlob = (pcm: Int16Array, sampleRate: number = 16000): Blob => ({
+  data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
 export const decodeAudioData = async (
   base64Data: string,
   ctx: AudioContext,
@@ -80,25 +87,3 @@ export const decodeAudioData = async (
   
   return buffer;
 };
-
-export const downsampleBuffer = (buffer: Float32Array, inputRate: number, outputRate: number): Float32Array => {
-  if (outputRate === inputRate) return buffer;
-  const sampleRateRatio = inputRate / outputRate;
-  const newLength = Math.round(buffer.length / sampleRateRatio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < newLength) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    let accum = 0, count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    result[offsetResult] = count > 0 ? accum / count : 0;
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
-  }
-  return result;
-};
\ No newline at end of file
@@ -0,0 +1,182 @@
+// --- Localized Book Names ---
+// Book names for every language in LANGUAGES other than English, in canonical order
+// (the order of BOOKS in scriptureRef.ts). Each list has 66 comma-separated entries;
+// "|" separates alternative names and common short forms for the same book. The first
+// name is the one shown to the user.
+
+const NAMES: Record<string, string> = {
+  es: `Génesis|Gn, Éxodo|Ex, Levítico|Lv, Números|Nm, Deuteronomio|Dt, Josué|Jos, Jueces|Jue, Rut, 1 Samuel|1 Sam, 2 Samuel|2 Sam,
+    1 Reyes|1 Re, 2 Reyes|2 Re, 1 Crónicas|1 Cr, 2 Crónicas|2 Cr, Esdras|Esd, Nehemías|Neh, Ester|Est, Job, Salmos|Salmo|Sal, Proverbios|Prov|Pr,
+    Eclesiastés|Ec, Cantares|Cantar de los Cantares|Cnt, Isaías|Is, Jeremías|Jer, Lamentaciones|Lm, Ezequiel|Ez, Daniel|Dn, Oseas|Os, Joel|Jl, Amós|Am,
+    Abdías|Abd, Jonás|Jon, Miqueas|Miq, Nahúm|Nah, Habacuc|Hab, Sofonías|Sof, Hageo|Hag, Zacarías|Zac, Malaquías|Mal,
+    Mateo|Mt, Marcos|Mc|Mr, Lucas|Lc, Juan|Jn, Hechos|Hch, Romanos|Ro|Rom, 1 Corintios|1 Co, 2 Corintios|2 Co, Gálatas|Gá|Gal, Efesios|Ef,
+    Filipenses|Flp|Fil, Colosenses|Col, 1 Tesalonicenses|1 Ts, 2 Tesalonicenses|2 Ts, 1 Timoteo|1 Ti, 2 Timoteo|2 Ti, Tito|Tit, Filemón|Flm, Hebreos|Heb,
+    Santiago|Stg, 1 Pedro|1 Pe, 2 Pedro|2 Pe, 1 Juan|1 Jn, 2 Juan|2 Jn, 3 Juan|3 Jn, Judas|Jud, Apocalipsis|Ap`,
+  pt: `Gênesis|Gn, Êxodo|Êx, Levítico|Lv, Números|Nm, Deuteronômio|Dt, Josué|Js, Juízes|Jz, Rute|Rt, 1 Samuel|1 Sm, 2 Samuel|2 Sm,
+    1 Reis|1 Rs, 2 Reis|2 Rs, 1 Crônicas|1 Cr, 2 Crônicas|2 Cr, Esdras|Ed, Neemias|Ne, Ester|Et, Jó, Salmos|Salmo|Sl, Provérbios|Pv,
+    Eclesiastes|Ec, Cânticos|Cantares|Ct, Isaías|Is, Jeremias|Jr, Lamentações|Lm, Ezequiel|Ez, Daniel|Dn, Oséias|Oseias|Os, Joel|Jl, Amós|Am,
+    Obadias|Ob, Jonas|Jn, Miquéias|Miqueias|Mq, Naum|Na, Habacuque|Hc, Sofonias|Sf, Ageu|Ag, Zacarias|Zc, Malaquias|Ml,
+    Mateus|Mt, Marcos|Mc, Lucas|Lc, João|Jo, Atos|At, Romanos|Rm, 1 Coríntios|1 Co, 2 Coríntios|2 Co, Gálatas|Gl, Efésios|Ef,
+    Filipenses|Fp, Colossenses|Cl, 1 Tessalonicenses|1 Ts, 2 Tessalonicenses|2 Ts, 1 Timóteo|1 Tm, 2 Timóteo|2 Tm, Tito|Tt, Filemom|Fm, Hebreus|Hb,
+    Tiago|Tg, 1 Pedro|1 Pe, 2 Pedro|2 Pe, 1 João|1 Jo, 2 João|2 Jo, 3 João|3 Jo, Judas|Jd, Apocalipse|Ap`,
+  fr: `Genèse|Gn, Exode|Ex, Lévitique|Lv, Nombres|Nb, Deutéronome|Dt, Josué|Jos, Juges|Jg, Ruth|Rt, 1 Samuel|1 S, 2 Samuel|2 S,
+    1 Rois|1 R, 2 Rois|2 R, 1 Chroniques|1 Ch, 2 Chroniques|2 Ch, Esdras|Esd, Néhémie|Né, Esther|Est, Job|Jb, Psaumes|Psaume|Ps, Proverbes|Pr,
+    Ecclésiaste|Qohélet|Ec, Cantique des Cantiques|Cantique|Ct, Ésaïe|Isaïe|Es|Is, Jérémie|Jr, Lamentations|Lm, Ézéchiel|Ez, Daniel|Dn, Osée|Os, Joël|Jl, Amos|Am,
+    Abdias|Ab, Jonas|Jon, Michée|Mi, Nahum|Na, Habacuc|Ha, Sophonie|So, Aggée|Ag, Zacharie|Za, Malachie|Ml,
+    Matthieu|Mt, Marc|Mc, Luc|Lc, Jean|Jn, Actes|Ac, Romains|Rm, 1 Corinthiens|1 Co, 2 Corinthiens|2 Co, Galates|Ga, Éphésiens|Ep,
+    Philippiens|Ph, Colossiens|Col, 1 Thessaloniciens|1 Th, 2 Thessaloniciens|2 Th, 1 Timothée|1 Tm, 2 Timothée|2 Tm, Tite|Tt, Philémon|Phm, Hébreux|He,
+    Jacques|Jc, 1 Pierre|1 P, 2 Pierre|2 P, 1 Jean|1 Jn, 2 Jean|2 Jn, 3 Jean|3 Jn, Jude|Jd, Apocalypse|Ap`,
+  de: `1. Mose|Genesis|1 Mo, 2. Mose|Exodus|2 Mo, 3. Mose|Levitikus|3 Mo, 4. Mose|Numeri|4 Mo, 5. Mose|Deuteronomium|5 Mo, Josua|Jos, Richter|Ri, Rut|Ruth, 1. Samuel|1 Sam, 2. Samuel|2 Sam,
+    1. Könige|1 Kön, 2. Könige|2 Kön, 1. Chronik|1 Chr, 2. Chronik|2 Chr, Esra|Esr, Nehemia|Neh, Ester|Est, Hiob|Ijob, Psalm|Psalmen|Ps, Sprüche|Spr,
+    Prediger|Kohelet|Pred, Hoheslied|Hld, Jesaja|Jes, Jeremia|Jer, Klagelieder|Klgl, Hesekiel|Ezechiel|Hes|Ez, Daniel|Dan, Hosea|Hos, Joel, Amos,
+    Obadja|Obd, Jona, Micha|Mi, Nahum|Nah, Habakuk|Hab, Zefanja|Zef, Haggai|Hag, Sacharja|Sach, Maleachi|Mal,
+    Matthäus|Mt, Markus|Mk, Lukas|Lk, Johannes|Joh, Apostelgeschichte|Apg, Römer|Röm, 1. Korinther|1 Kor, 2. Korinther|2 Kor, Galater|Gal, Epheser|Eph,
+    Philipper|Phil, Kolosser|Kol, 1. Thessalonicher|1 Thess, 2. Thessalonicher|2 Thess, 1. Timotheus|1 Tim, 2. Timotheus|2 Tim, Titus|Tit, Philemon|Phlm, Hebräer|Hebr,
+    Jakobus|Jak, 1. Petrus|1 Petr, 2. Petrus|2 Petr, 1. Johannes|1 Joh, 2. Johannes|2 Joh, 3. Johannes|3 Joh, Judas|Jud, Offenbarung|Offb`,
+  it: `Genesi, Esodo|Es, Levitico|Lv, Numeri|Nm, Deuteronomio|Dt, Giosuè|Gs, Giudici|Gdc, Rut|Rt, 1 Samuele|1 Sam, 2 Samuele|2 Sam,
+    1 Re, 2 Re, 1 Cronache|1 Cr, 2 Cronache|2 Cr, Esdra|Esd, Neemia|Ne, Ester|Est, Giobbe|Gb, Salmi|Salmo|Sal, Proverbi|Pr,
+    Ecclesiaste|Qoèlet|Qo, Cantico dei Cantici|Cantico|Ct, Isaia, Geremia|Ger, Lamentazioni|Lam, Ezechiele, Daniele|Dn, Osea, Gioele|Gl, Amos,
+    Abdia|Abd, Giona|Gn, Michea|Mi, Naum|Na, Abacuc, Sofonia|Sof, Aggeo|Ag, Zaccaria|Zc, Malachia|Ml,
+    Matteo, Marco, Luca, Giovanni|Gv, Atti|Atti degli Apostoli|At, Romani|Rm, 1 Corinzi|1 Cor, 2 Corinzi|2 Cor, Galati|Gal, Efesini|Ef,
+    Filippesi|Fil, Colossesi|Col, 1 Tessalonicesi|1 Ts, 2 Tessalonicesi|2 Ts, 1 Timoteo|1 Tm, 2 Timoteo|2 Tm, Tito|Tt, Filemone|Fm, Ebrei|Eb,
+    Giacomo|Gc, 1 Pietro|1 Pt, 2 Pietro|2 Pt, 1 Giovanni|1 Gv, 2 Giovanni|2 Gv, 3 Giovanni|3 Gv, Giuda|Gd, Apocalisse|Ap`,
+  id: `Kejadian|Kej, Keluaran|Kel, Imamat|Im, Bilangan|Bil, Ulangan|Ul, Yosua|Yos, Hakim-hakim|Hak, Rut, 1 Samuel|1 Sam, 2 Samuel|2 Sam,
+    1 Raja-raja|1 Raj, 2 Raja-raja|2 Raj, 1 Tawarikh|1 Taw, 2 Tawarikh|2 Taw, Ezra|Ezr, Nehemia|Neh, Ester|Est, Ayub|Ayb, Mazmur|Mzm, Amsal|Ams,
+    Pengkhotbah|Pkh, Kidung Agung|Kid, Yesaya|Yes, Yeremia|Yer, Ratapan|Rat, Yehezkiel|Yeh, Daniel|Dan, Hosea|Hos, Yoel|Yl, Amos|Am,
+    Obaja|Ob, Yunus|Yun, Mikha|Mi, Nahum|Nah, Habakuk|Hab, Zefanya|Zef, Hagai|Hag, Zakharia|Za, Maleakhi|Mal,
+    Matius|Mat, Markus|Mrk, Lukas|Luk, Yohanes|Yoh, Kisah Para Rasul|Kis, Roma|Rm, 1 Korintus|1 Kor, 2 Korintus|2 Kor, Galatia|Gal, Efesus|Ef,
+    Filipi|Flp, Kolose|Kol, 1 Tesalonika|1 Tes, 2 Tesalonika|2 Tes, 1 Timotius|1 Tim, 2 Timotius|2 Tim, Titus|Tit, Filemon|Flm, Ibrani|Ibr,
+    Yakobus|Yak, 1 Petrus|1 Ptr, 2 Petrus|2 Ptr, 1 Yohanes|1 Yoh, 2 Yohanes|2 Yoh, 3 Yohanes|3 Yoh, Yudas|Yud, Wahyu|Why`,
+  vi: `Sáng Thế Ký|Sáng, Xuất Ê-díp-tô Ký|Xuất, Lê-vi Ký|Lê, Dân Số Ký|Dân, Phục Truyền Luật Lệ Ký|Phục, Giô-suê, Các Quan Xét|Quan, Ru-tơ, 1 Sa-mu-ên, 2 Sa-mu-ên,
+    1 Các Vua, 2 Các Vua, 1 Sử Ký, 2 Sử Ký, E-xơ-ra, Nê-hê-mi, Ê-xơ-tê, Gióp, Thi Thiên|Thi, Châm Ngôn|Châm,
+    Truyền Đạo, Nhã Ca, Ê-sai, Giê-rê-mi, Ca Thương, Ê-xê-chi-ên, Đa-ni-ên, Ô-sê, Giô-ên, A-mốt,
+    Áp-đia, Giô-na, Mi-chê, Na-hum, Ha-ba-cúc, Sô-phô-ni, A-ghê, Xa-cha-ri, Ma-la-chi,
+    Ma-thi-ơ, Mác, Lu-ca, Giăng, Công Vụ Các Sứ Đồ|Công Vụ, Rô-ma, 1 Cô-rinh-tô, 2 Cô-rinh-tô, Ga-la-ti, Ê-phê-sô,
+    Phi-líp, Cô-lô-se, 1 Tê-sa-lô-ni-ca, 2 Tê-sa-lô-ni-ca, 1 Ti-mô-thê, 2 Ti-mô-thê, Tít, Phi-lê-môn, Hê-bơ-rơ,
+    Gia-cơ, 1 Phi-e-rơ, 2 Phi-e-rơ, 1 Giăng, 2 Giăng, 3 Giăng, Giu-đe, Khải Huyền`,
+  ru: `Бытие|Быт, Исход|Исх, Левит|Лев, Числа|Чис, Второзаконие|Втор, Иисус Навин|Нав, Судьи|Суд, Руфь, 1 Царств|1 Самуила|1 Цар, 2 Царств|2 Самуила|2 Цар,
+    3 Царств|1 Царей|3 Цар, 4 Царств|2 Царей|4 Цар, 1 Паралипоменон|1 Пар, 2 Паралипоменон|2 Пар, Ездра|Езд, Неемия|Неем, Есфирь|Есф, Иов, Псалтирь|Псалом|Пс, Притчи|Прит,
+    Екклесиаст|Еккл, Песнь Песней|Песн, Исаия|Ис, Иеремия|Иер, Плач Иеремии|Плач, Иезекииль|Иез, Даниил|Дан, Осия|Ос, Иоиль|Иоил, Амос|Ам,
+    Авдий|Авд, Иона|Ион, Михей|Мих, Наум, Аввакум|Авв, Софония|Соф, Аггей|Агг, Захария|Зах, Малахия|Мал,
+    От Матфея|Матфея|Мф, От Марка|Марка|Мк, От Луки|Луки|Лк, От Иоанна|Иоанна|Ин, Деяния|Деян, Римлянам|Рим, 1 Коринфянам|1 Кор, 2 Коринфянам|2 Кор, Галатам|Гал, Ефесянам|Еф,
+    Филиппийцам|Флп, Колоссянам|Кол, 1 Фессалоникийцам|1 Фес, 2 Фессалоникийцам|2 Фес, 1 Тимофею|1 Тим, 2 Тимофею|2 Тим, Титу|Тит, Филимону|Флм, Евреям|Евр,
+    Иакова|Иак, 1 Петра|1 Пет, 2 Петра|2 Пет, 1 Иоанна|1 Ин, 2 Иоанна|2 Ин, 3 Иоанна|3 Ин, Иуды|Иуд, Откровение|Откр`,
+  zh: `创世记|創世記|创, 出埃及记|出埃及記|出, 利未记|利未記|利, 民数记|民數記|民, 申命记|申命記|申, 约书亚记|約書亞記|书, 士师记|士師記|士, 路得记|路得記|得, 撒母耳记上|撒母耳記上, 撒母耳记下|撒母耳記下,
+    列王纪上|列王紀上, 列王纪下|列王紀下, 历代志上|歷代志上, 历代志下|歷代志下, 以斯拉记|以斯拉記|拉, 尼希米记|尼希米記|尼, 以斯帖记|以斯帖記|斯, 约伯记|約伯記|伯, 诗篇|詩篇|诗|詩, 箴言|箴,
+    传道书|傳道書|传, 雅歌|歌, 以赛亚书|以賽亞書|赛|賽, 耶利米书|耶利米書|耶, 耶利米哀歌|哀, 以西结书|以西結書|结|結, 但以理书|但以理書|但, 何西阿书|何西阿書|何, 约珥书|約珥書|珥, 阿摩司书|阿摩司書|摩,
+    俄巴底亚书|俄巴底亞書|俄, 约拿书|約拿書|拿, 弥迦书|彌迦書|弥|彌, 那鸿书|那鴻書|鸿|鴻, 哈巴谷书|哈巴谷書|哈, 西番雅书|西番雅書|番, 哈该书|哈該書|该|該, 撒迦利亚书|撒迦利亞書|亚|亞, 玛拉基书|瑪拉基書|玛|瑪,
+    马太福音|馬太福音|太, 马可福音|馬可福音|可, 路加福音|路, 约翰福音|約翰福音|约|約, 使徒行传|使徒行傳|徒, 罗马书|羅馬書|罗|羅, 哥林多前书|哥林多前書|林前, 哥林多后书|哥林多後書|林后|林後, 加拉太书|加拉太書|加, 以弗所书|以弗所書|弗,
+    腓立比书|腓立比書|腓, 歌罗西书|歌羅西書|西, 帖撒罗尼迦前书|帖撒羅尼迦前書|帖前, 帖撒罗尼迦后书|帖撒羅尼迦後書|帖后|帖後, 提摩太前书|提摩太前書|提前, 提摩太后书|提摩太後書|提后|提後, 提多书|提多書|多, 腓利门书|腓利門書|门|門, 希伯来书|希伯來書|来|來,
+    雅各书|雅各書|雅, 彼得前书|彼得前書|彼前, 彼得后书|彼得後書|彼后|彼後, 约翰一书|約翰一書|约壹|約壹, 约翰二书|約翰二書|约贰|約貳, 约翰三书|約翰三書|约叁|約參, 犹大书|猶大書|犹|猶, 启示录|啟示錄|启|啟`,
+  ja: `創世記|創, 出エジプト記|出, レビ記|レビ, 民数記|民, 申命記|申, ヨシュア記|ヨシュア, 士師記|士, ルツ記|ルツ, サムエル記上|サムエル上, サムエル記下|サムエル下,
+    列王記上|列王上, 列王記下|列王下, 歴代誌上|歴代上, 歴代誌下|歴代下, エズラ記|エズラ, ネヘミヤ記|ネヘミヤ, エステル記|エステル, ヨブ記|ヨブ, 詩編|詩篇|詩, 箴言|箴,
+    コヘレトの言葉|伝道の書|コヘレト|伝道, 雅歌, イザヤ書|イザヤ, エレミヤ書|エレミヤ, 哀歌, エゼキエル書|エゼキエル, ダニエル書|ダニエル, ホセア書|ホセア, ヨエル書|ヨエル, アモス書|アモス,
+    オバデヤ書|オバデヤ, ヨナ書|ヨナ, ミカ書|ミカ, ナホム書|ナホム, ハバクク書|ハバクク, ゼファニヤ書|ゼパニヤ書|ゼファニヤ, ハガイ書|ハガイ, ゼカリヤ書|ゼカリヤ, マラキ書|マラキ,
+    マタイによる福音書|マタイの福音書|マタイ, マルコによる福音書|マルコの福音書|マルコ, ルカによる福音書|ルカの福音書|ルカ, ヨハネによる福音書|ヨハネの福音書|ヨハネ, 使徒言行録|使徒行伝|使徒, ローマの信徒への手紙|ローマ人への手紙|ローマ, コリントの信徒への手紙一|コリント人への手紙第一|Ⅰコリント, コリントの信徒への手紙二|コリント人への手紙第二|Ⅱコリント, ガラテヤの信徒への手紙|ガラテヤ人への手紙|ガラテヤ, エフェソの信徒への手紙|エペソ人への手紙|エフェソ|エペソ,
+    フィリピの信徒への手紙|ピリピ人への手紙|フィリピ|ピリピ, コロサイの信徒への手紙|コロサイ人への手紙|コロサイ, テサロニケの信徒への手紙一|テサロニケ人への手紙第一|Ⅰテサロニケ, テサロニケの信徒への手紙二|テサロニケ人への手紙第二|Ⅱテサロニケ, テモテへの手紙一|テモテへの手紙第一|Ⅰテモテ, テモテへの手紙二|テモテへの手紙第二|Ⅱテモテ, テトスへの手紙|テトス, フィレモンへの手紙|ピレモンへの手紙|フィレモン|ピレモン, ヘブライ人への手紙|ヘブル人への手紙|ヘブライ|ヘブル,
+    ヤコブの手紙|ヤコブ, ペトロの手紙一|ペテロの手紙第一|Ⅰペトロ|Ⅰペテロ, ペトロの手紙二|ペテロの手紙第二|Ⅱペトロ|Ⅱペテロ, ヨハネの手紙一|ヨハネの手紙第一|Ⅰヨハネ, ヨハネの手紙二|ヨハネの手紙第二|Ⅱヨハネ, ヨハネの手紙三|ヨハネの手紙第三|Ⅲヨハネ, ユダの手紙|ユダ, ヨハネの黙示録|黙示録|黙`,
+  ko: `창세기|창, 출애굽기|출, 레위기|레, 민수기|민, 신명기|신, 여호수아|수, 사사기|삿, 룻기|룻, 사무엘상|삼상, 사무엘하|삼하,
+    열왕기상|왕상, 열왕기하|왕하, 역대상|대상, 역대하|대하, 에스라|스, 느헤미야|느, 에스더|에, 욥기|욥, 시편|시, 잠언|잠,
+    전도서|전, 아가|아, 이사야|사, 예레미야|렘, 예레미야애가|애, 에스겔|겔, 다니엘|단, 호세아|호, 요엘|욜, 아모스|암,
+    오바댜|옵, 요나|욘, 미가|미, 나훔|나, 하박국|합, 스바냐|습, 학개|학, 스가랴|슥, 말라기|말,
+    마태복음|마, 마가복음|막, 누가복음|눅, 요한복음|요, 사도행전|행, 로마서|롬, 고린도전서|고전, 고린도후서|고후, 갈라디아서|갈, 에베소서|엡,
+    빌립보서|빌, 골로새서|골, 데살로니가전서|살전, 데살로니가후서|살후, 디모데전서|딤전, 디모데후서|딤후, 디도서|딛, 빌레몬서|몬, 히브리서|히,
+    야고보서|약, 베드로전서|벧전, 베드로후서|벧후, 요한일서|요일, 요한이서|요이, 요한삼서|요삼, 유다서|유, 요한계시록|계`,
+  ar: `التكوين|تكوين, الخروج|خروج, اللاويين|لاويين, العدد|عدد, التثنية|تثنية, يشوع, القضاة|قضاة, راعوث, صموئيل الأول|1 صموئيل, صموئيل الثاني|2 صموئيل,
+    الملوك الأول|1 ملوك, الملوك الثاني|2 ملوك, أخبار الأيام الأول|1 أخبار, أخبار الأيام الثاني|2 أخبار, عزرا, نحميا, أستير, أيوب, المزامير|مزمور|مز, الأمثال|أمثال,
+    الجامعة|جامعة, نشيد الأنشاد|نشيد, إشعياء, إرميا, مراثي إرميا|مراثي, حزقيال, دانيال, هوشع, يوئيل, عاموس,
+    عوبديا, يونان, ميخا, ناحوم, حبقوق, صفنيا, حجي, زكريا, ملاخي,
+    متى, مرقس, لوقا, يوحنا, أعمال الرسل|أعمال, رومية, كورنثوس الأولى|1 كورنثوس, كورنثوس الثانية|2 كورنثوس, غلاطية, أفسس,
+    فيلبي, كولوسي, تسالونيكي الأولى|1 تسالونيكي, تسالونيكي الثانية|2 تسالونيكي, تيموثاوس الأولى|1 تيموثاوس, تيموثاوس الثانية|2 تيموثاوس, تيطس, فليمون, العبرانيين|عبرانيين,
+    يعقوب, بطرس الأولى|1 بطرس, بطرس الثانية|2 بطرس, يوحنا الأولى|1 يوحنا, يوحنا الثانية|2 يوحنا, يوحنا الثالثة|3 يوحنا, يهوذا, رؤيا يوحنا|رؤيا`,
+  ur: `پیدائش, خروج, احبار, گنتی, استثنا, یشوع, قضاة, روت, 1 سموئیل, 2 سموئیل,
+    1 سلاطین, 2 سلاطین, 1 تواریخ, 2 تواریخ, عزرا, نحمیاہ, آستر, ایوب, زبور, امثال,
+    واعظ, غزل الغزلات, یسعیاہ, یرمیاہ, نوحہ, حزقی ایل, دانی ایل, ہوسیع, یوایل, عاموس,
+    عبدیاہ, یوناہ, میکاہ, ناحوم, حبقوق, صفنیاہ, حجی, زکریاہ, ملاکی,
+    متی, مرقس, لوقا, یوحنا, اعمال, رومیوں, 1 کرنتھیوں, 2 کرنتھیوں, گلتیوں, افسیوں,
+    فلپیوں, کلسیوں, 1 تھسلنیکیوں, 2 تھسلنیکیوں, 1 تیمتھیس, 2 تیمتھیس, ططس, فلیمون, عبرانیوں,
+    یعقوب, 1 پطرس, 2 پطرس, 1 یوحنا, 2 یوحنا, 3 یوحنا, یہوداہ, مکاشفہ`,
+  hi: `उत्पत्ति, निर्गमन, लैव्यव्यवस्था, गिनती, व्यवस्थाविवरण, यहोशू, न्यायियों, रूत, 1 शमूएल, 2 शमूएल,
+    1 राजाओं, 2 राजाओं, 1 इतिहास, 2 इतिहास, एज्रा, नहेम्याह, एस्तेर, अय्यूब, भजन संहिता|भजन, नीतिवचन,
+    सभोपदेशक, श्रेष्ठगीत, यशायाह, यिर्मयाह, विलापगीत, यहेजकेल, दानिय्येल, होशे, योएल, आमोस,
+    ओबद्याह, योना, मीका, नहूम, हबक्कूक, सपन्याह, हाग्गै, जकर्याह, मलाकी,
+    मत्ती, मरकुस, लूका, यूहन्ना, प्रेरितों के काम, रोमियों, 1 कुरिन्थियों, 2 कुरिन्थियों, गलातियों, इफिसियों,
+    फिलिप्पियों, कुलुस्सियों, 1 थिस्सलुनीकियों, 2 थिस्सलुनीकियों, 1 तीमुथियुस, 2 तीमुथियुस, तीतुस, फिलेमोन, इब्रानियों,
+    याकूब, 1 पतरस, 2 पतरस, 1 यूहन्ना, 2 यूहन्ना, 3 यूहन्ना, यहूदा, प्रकाशितवाक्य`,
+  mr: `उत्पत्ति, निर्गम, लेवीय, गणना, अनुवाद, यहोशवा, शास्ते, रूथ, 1 शमुवेल, 2 शमुवेल,
+    1 राजे, 2 राजे, 1 इतिहास, 2 इतिहास, एज्रा, नहेम्या, एस्तेर, ईयोब, स्तोत्रसंहिता|स्तोत्र, नीतिसूत्रे,
+    उपदेशक, गीतरत्न, यशया, यिर्मया, विलापगीत, यहेज्केल, दानीएल, होशेय, योएल, आमोस,
+    ओबद्या, योना, मीखा, नहूम, हबक्कूक, सफन्या, हाग्गय, जखऱ्या, मलाखी,
+    मत्तय, मार्क, लूक, योहान, प्रेषितांची कृत्ये, रोमकरांस, 1 करिंथकरांस, 2 करिंथकरांस, गलतीकरांस, इफिसकरांस,
+    फिलिप्पैकरांस, कलस्सैकरांस, 1 थेस्सलनीकाकरांस, 2 थेस्सलनीकाकरांस, 1 तीमथ्याला, 2 तीमथ्याला, तीताला, फिलेमोनाला, इब्री लोकांस,
+    याकोब, 1 पेत्र, 2 पेत्र, 1 योहान, 2 योहान, 3 योहान, यहूदा, प्रकटीकरण`,
+  gu: `ઉત્પત્તિ, નિર્ગમન, લેવીય, ગણના, પુનર્નિયમ, યહોશુઆ, ન્યાયાધીશો, રૂથ, 1 શમુએલ, 2 શમુએલ,
+    1 રાજાઓ, 2 રાજાઓ, 1 કાળવૃત્તાંત, 2 કાળવૃત્તાંત, એઝરા, નહેમ્યા, એસ્તેર, અયૂબ, ગીતશાસ્ત્ર, નીતિવચનો,
+    સભાશિક્ષક, ગીતોનું ગીત, યશાયા, યર્મિયા, યર્મિયાનો વિલાપ, હઝકિયેલ, દાનિયેલ, હોશિયા, યોએલ, આમોસ,
+    ઓબાદ્યા, યૂના, મીખાહ, નાહૂમ, હબાકુક, સફાન્યા, હાગ્ગાય, ઝખાર્યા, માલાખી,
+    માથ્થી, માર્ક, લૂક, યોહાન, પ્રેરિતોનાં કૃત્યો, રોમનો, 1 કરિંથીઓ, 2 કરિંથીઓ, ગલાતીઓ, એફેસીઓ,
+    ફિલિપીઓ, કલોસીઓ, 1 થેસ્સાલોનિકીઓ, 2 થેસ્સાલોનિકીઓ, 1 તિમોથી, 2 તિમોથી, તિતસ, ફિલેમોન, હિબ્રૂઓ,
+    યાકૂબ, 1 પિતર, 2 પિતર, 1 યોહાન, 2 યોહાન, 3 યોહાન, યહૂદા, પ્રકટીકરણ`,
+  pa: `ਉਤਪਤ, ਕੂਚ, ਲੇਵੀਆਂ, ਗਿਣਤੀ, ਬਿਵਸਥਾ ਸਾਰ, ਯਹੋਸ਼ੁਆ, ਨਿਆਂਈਆਂ, ਰੂਥ, 1 ਸਮੂਏਲ, 2 ਸਮੂਏਲ,
+    1 ਰਾਜਿਆਂ, 2 ਰਾਜਿਆਂ, 1 ਇਤਿਹਾਸ, 2 ਇਤਿਹਾਸ, ਅਜ਼ਰਾ, ਨਹਮਯਾਹ, ਅਸਤਰ, ਅੱਯੂਬ, ਜ਼ਬੂਰ, ਕਹਾਉਤਾਂ,
+    ਉਪਦੇਸ਼ਕ, ਸਰੇਸ਼ਟ ਗੀਤ, ਯਸਾਯਾਹ, ਯਿਰਮਿਯਾਹ, ਵਿਰਲਾਪ, ਹਿਜ਼ਕੀਏਲ, ਦਾਨੀਏਲ, ਹੋਸ਼ੇਆ, ਯੋਏਲ, ਆਮੋਸ,
+    ਓਬਦਯਾਹ, ਯੂਨਾਹ, ਮੀਕਾਹ, ਨਹੂਮ, ਹਬਕੂਕ, ਸਫ਼ਨਯਾਹ, ਹੱਜਈ, ਜ਼ਕਰਯਾਹ, ਮਲਾਕੀ,
+    ਮੱਤੀ, ਮਰਕੁਸ, ਲੂਕਾ, ਯੂਹੰਨਾ, ਰਸੂਲਾਂ ਦੇ ਕਰਤੱਬ, ਰੋਮੀਆਂ, 1 ਕੁਰਿੰਥੀਆਂ, 2 ਕੁਰਿੰਥੀਆਂ, ਗਲਾਤੀਆਂ, ਅਫ਼ਸੀਆਂ,
+    ਫ਼ਿਲਿੱਪੀਆਂ, ਕੁਲੁੱਸੀਆਂ, 1 ਥੱਸਲੁਨੀਕੀਆਂ, 2 ਥੱਸਲੁਨੀਕੀਆਂ, 1 ਤਿਮੋਥਿਉਸ, 2 ਤਿਮੋਥਿਉਸ, ਤੀਤੁਸ, ਫ਼ਿਲੇਮੋਨ, ਇਬਰਾਨੀਆਂ,
+    ਯਾਕੂਬ, 1 ਪਤਰਸ, 2 ਪਤਰਸ, 1 ਯੂਹੰਨਾ, 2 ਯੂਹੰਨਾ, 3 ਯੂਹੰਨਾ, ਯਹੂਦਾਹ, ਪਰਕਾਸ਼ ਦੀ ਪੋਥੀ`,
+  bn: `আদিপুস্তক, যাত্রাপুস্তক, লেবীয় পুস্তক, গণনাপুস্তক, দ্বিতীয় বিবরণ, যিহোশূয়, বিচারকর্তৃগণ, রূত, 1 শমূয়েল, 2 শমূয়েল,
+    1 রাজাবলি, 2 রাজাবলি, 1 বংশাবলি, 2 বংশাবলি, ইষ্রা, নহিমিয়, ইষ্টের, ইয়োব, গীতসংহিতা, হিতোপদেশ,
+    উপদেশক, পরমগীত, যিশাইয়, যিরমিয়, বিলাপ, যিহিষ্কেল, দানিয়েল, হোশেয়, যোয়েল, আমোষ,
+    ওবদিয়, যোনা, মীখা, নহূম, হবক্কূক, সফনিয়, হগয়, সখরিয়, মালাখি,
+    মথি, মার্ক, লূক, যোহন, প্রেরিত, রোমীয়, 1 করিন্থীয়, 2 করিন্থীয়, গালাতীয়, ইফিষীয়,
+    ফিলিপীয়, কলসীয়, 1 থিষলনীকীয়, 2 থিষলনীকীয়, 1 তীমথিয়, 2 তীমথিয়, তীত, ফিলীমন, ইব্রীয়,
+    যাকোব, 1 পিতর, 2 পিতর, 1 যোহন, 2 যোহন, 3 যোহন, যিহূদা, প্রকাশিত বাক্য`,
+  ta: `ஆதியாகமம், யாத்திராகமம், லேவியராகமம், எண்ணாகமம், உபாகமம், யோசுவா, நியாயாதிபதிகள், ரூத், 1 சாமுவேல், 2 சாமுவேல்,
+    1 இராஜாக்கள், 2 இராஜாக்கள், 1 நாளாகமம், 2 நாளாகமம், எஸ்றா, நெகேமியா, எஸ்தர், யோபு, சங்கீதம், நீதிமொழிகள்,
+    பிரசங்கி, உன்னதப்பாட்டு, ஏசாயா, எரேமியா, புலம்பல், எசேக்கியேல், தானியேல், ஓசியா, யோவேல், ஆமோஸ்,
+    ஒபதியா, யோனா, மீகா, நாகூம், ஆபகூக், செப்பனியா, ஆகாய், சகரியா, மல்கியா,
+    மத்தேயு, மாற்கு, லூக்கா, யோவான், அப்போஸ்தலருடைய நடபடிகள்|அப்போஸ்தலர், ரோமர், 1 கொரிந்தியர், 2 கொரிந்தியர், கலாத்தியர், எபேசியர்,
+    பிலிப்பியர், கொலோசெயர், 1 தெசலோனிக்கேயர், 2 தெசலோனிக்கேயர், 1 தீமோத்தேயு, 2 தீமோத்தேயு, தீத்து, பிலேமோன், எபிரெயர்,
+    யாக்கோபு, 1 பேதுரு, 2 பேதுரு, 1 யோவான், 2 யோவான், 3 யோவான், யூதா, வெளிப்படுத்தின விசேஷம்|வெளிப்படுத்தல்`,
+  te: `ఆదికాండము, నిర్గమకాండము, లేవీయకాండము, సంఖ్యాకాండము, ద్వితీయోపదేశకాండము, యెహోషువ, న్యాయాధిపతులు, రూతు, 1 సమూయేలు, 2 సమూయేలు,
+    1 రాజులు, 2 రాజులు, 1 దినవృత్తాంతములు, 2 దినవృత్తాంతములు, ఎజ్రా, నెహెమ్యా, ఎస్తేరు, యోబు, కీర్తనల గ్రంథము|కీర్తనలు, సామెతలు,
+    ప్రసంగి, పరమగీతము, యెషయా, యిర్మీయా, విలాపవాక్యములు, యెహెజ్కేలు, దానియేలు, హోషేయ, యోవేలు, ఆమోసు,
+    ఓబద్యా, యోనా, మీకా, నహూము, హబక్కూకు, జెఫన్యా, హగ్గయి, జెకర్యా, మలాకీ,
+    మత్తయి, మార్కు, లూకా, యోహాను, అపొస్తలుల కార్యములు, రోమీయులకు, 1 కొరింథీయులకు, 2 కొరింథీయులకు, గలతీయులకు, ఎఫెసీయులకు,
+    ఫిలిప్పీయులకు, కొలొస్సయులకు, 1 థెస్సలొనీకయులకు, 2 థెస్సలొనీకయులకు, 1 తిమోతికి, 2 తిమోతికి, తీతుకు, ఫిలేమోనుకు, హెబ్రీయులకు,
+    యాకోబు, 1 పేతురు, 2 పేతురు, 1 యోహాను, 2 యోహాను, 3 యోహాను, యూదా, ప్రకటన గ్రంథము|ప్రకటన`,
+  ml: `ഉല്പത്തി, പുറപ്പാട്, ലേവ്യപുസ്തകം, സംഖ്യാപുസ്തകം, ആവർത്തനം, യോശുവ, ന്യായാധിപന്മാർ, രൂത്ത്, 1 ശമൂവേൽ, 2 ശമൂവേൽ,
+    1 രാജാക്കന്മാർ, 2 രാജാക്കന്മാർ, 1 ദിനവൃത്താന്തം, 2 ദിനവൃത്താന്തം, എസ്രാ, നെഹെമ്യാവ്, എസ്ഥേർ, ഇയ്യോബ്, സങ്കീർത്തനങ്ങൾ, സദൃശ്യവാക്യങ്ങൾ,
+    സഭാപ്രസംഗി, ഉത്തമഗീതം, യെശയ്യാവ്, യിരെമ്യാവ്, വിലാപങ്ങൾ, യെഹെസ്കേൽ, ദാനീയേൽ, ഹോശേയ, യോവേൽ, ആമോസ്,
+    ഓബദ്യാവ്, യോനാ, മീഖാ, നഹൂം, ഹബക്കൂക്ക്, സെഫന്യാവ്, ഹഗ്ഗായി, സെഖര്യാവ്, മലാഖി,
+    മത്തായി, മർക്കൊസ്, ലൂക്കൊസ്, യോഹന്നാൻ, അപ്പൊസ്തലപ്രവൃത്തികൾ|പ്രവൃത്തികൾ, റോമർ, 1 കൊരിന്ത്യർ, 2 കൊരിന്ത്യർ, ഗലാത്യർ, എഫെസ്യർ,
+    ഫിലിപ്പിയർ, കൊലൊസ്സ്യർ, 1 തെസ്സലൊനീക്യർ, 2 തെസ്സലൊനീക്യർ, 1 തിമൊഥെയൊസ്, 2 തിമൊഥെയൊസ്, തീത്തൊസ്, ഫിലേമോൻ, എബ്രായർ,
+    യാക്കോബ്, 1 പത്രൊസ്, 2 പത്രൊസ്, 1 യോഹന്നാൻ, 2 യോഹന്നാൻ, 3 യോഹന്നാൻ, യൂദാ, വെളിപ്പാട്`,
+  kn: `ಆದಿಕಾಂಡ, ವಿಮೋಚನಕಾಂಡ, ಯಾಜಕಕಾಂಡ, ಅರಣ್ಯಕಾಂಡ, ಧರ್ಮೋಪದೇಶಕಾಂಡ, ಯೆಹೋಶುವ, ನ್ಯಾಯಸ್ಥಾಪಕರು, ರೂತಳು, 1 ಸಮುವೇಲನು, 2 ಸಮುವೇಲನು,
+    1 ಅರಸುಗಳು, 2 ಅರಸುಗಳು, 1 ಪೂರ್ವಕಾಲವೃತ್ತಾಂತ, 2 ಪೂರ್ವಕಾಲವೃತ್ತಾಂತ, ಎಜ್ರನು, ನೆಹೆಮೀಯನು, ಎಸ್ತೇರಳು, ಯೋಬನು, ಕೀರ್ತನೆಗಳು, ಜ್ಞಾನೋಕ್ತಿಗಳು,
+    ಪ್ರಸಂಗಿ, ಪರಮಗೀತ, ಯೆಶಾಯ, ಯೆರೆಮೀಯ, ಪ್ರಲಾಪಗಳು, ಯೆಹೆಜ್ಕೇಲನು, ದಾನಿಯೇಲನು, ಹೋಶೇಯ, ಯೋವೇಲ, ಆಮೋಸ,
+    ಓಬದ್ಯ, ಯೋನ, ಮೀಕ, ನಹೂಮ, ಹಬಕ್ಕೂಕ್ಕ, ಚೆಫನ್ಯ, ಹಗ್ಗಾಯ, ಜೆಕರ್ಯ, ಮಲಾಕಿಯ,
+    ಮತ್ತಾಯನು, ಮಾರ್ಕನು, ಲೂಕನು, ಯೋಹಾನನು, ಅಪೊಸ್ತಲರ ಕೃತ್ಯಗಳು, ರೋಮಾಪುರದವರಿಗೆ, 1 ಕೊರಿಂಥದವರಿಗೆ, 2 ಕೊರಿಂಥದವರಿಗೆ, ಗಲಾತ್ಯದವರಿಗೆ, ಎಫೆಸದವರಿಗೆ,
+    ಫಿಲಿಪ್ಪಿಯವರಿಗೆ, ಕೊಲೊಸ್ಸೆಯವರಿಗೆ, 1 ಥೆಸಲೊನೀಕದವರಿಗೆ, 2 ಥೆಸಲೊನೀಕದವರಿಗೆ, 1 ತಿಮೊಥೆಯನಿಗೆ, 2 ತಿಮೊಥೆಯನಿಗೆ, ತೀತನಿಗೆ, ಫಿಲೆಮೋನನಿಗೆ, ಇಬ್ರಿಯರಿಗೆ,
+    ಯಾಕೋಬನು, 1 ಪೇತ್ರನು, 2 ಪೇತ್ರನು, 1 ಯೋಹಾನನು, 2 ಯೋಹಾನನು, 3 ಯೋಹಾನನು, ಯೂದನು, ಪ್ರಕಟನೆ`,
+  th: `ปฐมกาล, อพยพ, เลวีนิติ, กันดารวิถี, เฉลยธรรมบัญญัติ, โยชูวา, ผู้วินิจฉัย, นางรูธ|รูธ, 1 ซามูเอล, 2 ซามูเอล,
+    1 พงศ์กษัตริย์, 2 พงศ์กษัตริย์, 1 พงศาวดาร, 2 พงศาวดาร, เอสรา, เนหะมีย์, เอสเธอร์, โยบ, สดุดี, สุภาษิต,
+    ปัญญาจารย์, เพลงซาโลมอน|เพลงโซโลมอน, อิสยาห์, เยเรมีย์, เพลงคร่ำครวญ, เอเสเคียล, ดาเนียล, โฮเชยา, โยเอล, อาโมส,
+    โอบาดีห์, โยนาห์, มีคาห์, นาฮูม, ฮาบากุก, เศฟันยาห์, ฮักกัย, เศคาริยาห์, มาลาคี,
+    มัทธิว, มาระโก, ลูกา, ยอห์น, กิจการ, โรม, 1 โครินธ์, 2 โครินธ์, กาลาเทีย, เอเฟซัส,
+    ฟีลิปปี, โคโลสี, 1 เธสะโลนิกา, 2 เธสะโลนิกา, 1 ทิโมธี, 2 ทิโมธี, ทิตัส, ฟีเลโมน, ฮีบรู,
+    ยากอบ, 1 เปโตร, 2 เปโตร, 1 ยอห์น, 2 ยอห์น, 3 ยอห์น, ยูดา, วิวรณ์`,
+};
+
+const splitNames = (list: string) => list.split(/\s*,\s*/).map(entry => entry.trim().split('|').map(name => name.trim()));
+
+const PARSED: Record<string, string[][]> = Object.fromEntries(
+  Object.entries(NAMES).map(([lang, list]) => [lang, splitNames(list)])
+);
+
+// "es-ES" → the Spanish names, each book's alternatives in order
+export const localizedBookNames = (language: string): string[][] | null => PARSED[language.split('-')[0]] || null;
+
+// Every localized name and short form with its book index, for the parser
+export const allLocalizedNames = (): Array<[string, number]> =>
+  Object.values(PARSED).flatMap(books => books.flatMap((names, i) => names.map(name => [name, i] as [string, number])));
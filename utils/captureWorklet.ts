@@ -0,0 +1,133 @@
+// --- Microphone Capture Worklet ---
+// Runs on the audio rendering thread instead of the page. The microphone is taken at the
+// device's own rate and resampled to the rate the Live API expects: a windowed-sinc low-pass
+// keeps everything above the new Nyquist frequency from aliasing, and the filtered signal is
+// interpolated at the output positions. The result is posted as 16-bit PCM in 100 ms chunks,
+// each flagged by a simple energy-based voice detector so silence need not be streamed.
+
+export interface CaptureChunk {
+  pcm: Int16Array;
+  // RMS level of the chunk, 0..1
+  level: number;
+  // Speech, or the short tail after it
+  voiced: boolean;
+}
+
+export const CAPTURE_PROCESSOR = 'faithwalk-capture';
+
+const WORKLET_SOURCE = `
+const CHUNK_MS = 100;
+// Speech has to stand this far above the background noise (about +10 dB)
+const SPEECH_RATIO = 3.2;
+// And above this absolute level (about -40 dBFS)
+const MIN_SPEECH_LEVEL = 0.01;
+// Chunks that stay voiced after speech stops, so pauses between words are kept
+const HANGOVER_CHUNKS = 6;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const targetRate = options.processorOptions.targetRate;
+    this.step = sampleRate / targetRate;
+    this.taps = this.step > 1 ? CaptureProcessor.lowPass(0.875 * (targetRate / 2) / sampleRate, Math.ceil(this.step * 32) | 1) : new Float32Array([1]);
+    this.input = new Float32Array(8192);
+    this.inputLength = 0;
+    this.position = 0;
+    this.chunk = new Int16Array(Math.round(targetRate * CHUNK_MS / 1000));
+    this.chunkLength = 0;
+    this.energy = 0;
+    this.noise = MIN_SPEECH_LEVEL / 4;
+    this.hangover = 0;
+  }
+
+  // Hamming-windowed sinc, cutoff in cycles per input sample
+  static lowPass(cutoff, length) {
+    const taps = new Float32Array(length);
+    const middle = (length - 1) / 2;
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      const x = i - middle;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      taps[i] = sinc * (0.54 - 0.46 * Math.cos(2 * Math.PI * i / (length - 1)));
+      sum += taps[i];
+    }
+    for (let i = 0; i < length; i++) taps[i] /= sum;
+    return taps;
+  }
+
+  filtered(index) {
+    const taps = this.taps;
+    let acc = 0;
+    for (let k = 0; k < taps.length; k++) acc += taps[k] * this.input[index + k];
+    return acc;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    this.input.set(channel, this.inputLength);
+    this.inputLength += channel.length;
+
+    const span = this.taps.length;
+    while (Math.floor(this.position) + span < this.inputLength) {
+      const j = Math.floor(this.position);
+      const fraction = this.position - j;
+      const a = this.filtered(j);
+      const sample = fraction > 0 ? a + (this.filtered(j + 1) - a) * fraction : a;
+      this.emit(sample);
+      this.position += this.step;
+    }
+
+    // Keep only what the filter still needs
+    const consumed = Math.floor(this.position);
+    this.input.copyWithin(0, consumed, this.inputLength);
+    this.inputLength -= consumed;
+    this.position -= consumed;
+    return true;
+  }
+
+  emit(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.energy += s * s;
+    if (this.chunkLength < this.chunk.length) return;
+
+    const level = Math.sqrt(this.energy / this.chunk.length);
+    const speech = level > Math.max(this.noise * SPEECH_RATIO, MIN_SPEECH_LEVEL);
+    // The noise floor follows quiet rooms quickly and rises only slowly
+    this.noise = level < this.noise ? (this.noise + level) / 2 : this.noise * 0.995 + level * 0.005;
+    this.hangover = speech ? HANGOVER_CHUNKS : Math.max(0, this.hangover - 1);
+
+    const pcm = this.chunk;
+    this.port.postMessage({ pcm, level, voiced: speech || this.hangover > 0 }, [pcm.buffer]);
+    this.chunk = new Int16Array(pcm.length);
+    this.chunkLength = 0;
+    this.energy = 0;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR}', CaptureProcessor);
+`;
+
+// Loaded from a blob so the worklet ships inside the bundle like any other module
+export const loadCaptureWorklet = async (ctx: AudioContext) => {
+  if (!ctx.audioWorklet) throw new Error("Voice capture is not supported in this browser.");
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const createCaptureNode = (ctx: AudioContext, targetRate: number, onChunk: (chunk: CaptureChunk) => void) => {
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate },
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureChunk>) => onChunk(e.data);
+  return node;
+};
@@ -0,0 +1,132 @@
+// --- Narration ---
+// Long text is read aloud in sections rather than as one request. Sections break on
+// sentence boundaries, and short paragraphs are grouped into one section. Each section
+// records the paragraphs it covers so the page can mark what is being read. The first
+// section is kept short so that playback can start quickly. The remaining sections are
+// synthesized ahead of the listener.
+
+// Paragraph indexes are positions in the array passed to `splitNarration`
+export interface NarrationChunk {
+  text: string;
+  first: number;
+  last: number;
+}
+
+const FIRST_CHUNK_CHARS = 300;
+const MAX_CHUNK_CHARS = 1200;
+// Sections synthesized ahead of the one playing
+const LOOKAHEAD = 2;
+
+// Sentence plus its closing punctuation, quotes and trailing space
+const SENTENCE = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*\s*|$)/g;
+
+// Splits text that has no sentence break short enough, at the last space that fits
+const splitLong = (text: string, limit: number): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    const space = rest.lastIndexOf(' ', limit);
+    const cut = space > limit / 2 ? space : limit;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+};
+
+export const splitNarration = (paragraphs: string[]): NarrationChunk[] => {
+  const chunks: NarrationChunk[] = [];
+  let current: NarrationChunk | null = null;
+  const limit = () => chunks.length === 0 ? FIRST_CHUNK_CHARS : MAX_CHUNK_CHARS;
+  const flush = () => {
+    if (current) chunks.push({ ...current, text: current.text.trim() });
+    current = null;
+  };
+
+  paragraphs.forEach((raw, index) => {
+    const paragraph = raw.replace(/\s+/g, ' ').trim();
+    if (!paragraph) return;
+    if (current && current.text.length + paragraph.length + 1 <= limit()) {
+      current.text += `\n${paragraph}`;
+      current.last = index;
+      return;
+    }
+    flush();
+    const sentences = paragraph.match(SENTENCE) || [paragraph];
+    for (const sentence of sentences) {
+      // Pieces of one sentence were cut at spaces, so they are joined with one again
+      splitLong(sentence, limit()).forEach((piece, i) => {
+        if (current && current.text.length + piece.length + 1 > limit()) flush();
+        if (!current) current = { text: '', first: index, last: index };
+        current.text += i > 0 && current.text ? ` ${piece}` : piece;
+      });
+    }
+  });
+  flush();
+  return chunks;
+};
+
+export interface Narration {
+  chunks: NarrationChunk[];
+  // Object URL of a section's audio, synthesizing it if needed
+  load: (index: number) => Promise<string>;
+  // Synthesizes the next few sections after `index` one at a time, stopping at the first failure
+  prefetch: (index: number) => void;
+  // Synthesizes every section not yet ready, in order
+  loadAll: () => Promise<void>;
+  isReady: (index: number) => boolean;
+  // Every section's audio once all are ready, else null
+  sections: () => Blob[] | null;
+  dispose: () => void;
+}
+
+// `onReady` fires whenever a section finishes synthesizing
+export const createNarration = (
+  chunks: NarrationChunk[],
+  synthesize: (text: string, index: number) => Promise<Blob>,
+  onReady?: () => void
+): Narration => {
+  const pending = new Map<number, Promise<string>>();
+  const urls = new Map<number, string>();
+  const blobs = new Map<number, Blob>();
+  let disposed = false;
+
+  const load = (index: number): Promise<string> => {
+    if (!pending.has(index)) {
+      const request = synthesize(chunks[index].text, index).then(blob => {
+        if (disposed) throw new Error("Narration closed");
+        const url = URL.createObjectURL(blob);
+        urls.set(index, url);
+        blobs.set(index, blob);
+        onReady?.();
+        return url;
+      });
+      // A failed section is requested again the next time it is needed
+      pending.set(index, request.catch(e => { pending.delete(index); throw e; }));
+    }
+    return pending.get(index)!;
+  };
+
+  const loadRange = (from: number, to: number) => {
+    let chain = Promise.resolve();
+    for (let i = from; i <= to; i++) chain = chain.then(() => { if (!disposed) return load(i).then(() => {}); });
+    return chain;
+  };
+
+  return {
+    chunks,
+    load,
+    prefetch: (index) => { loadRange(index + 1, Math.min(chunks.length - 1, index + LOOKAHEAD)).catch(() => {}); },
+    loadAll: () => loadRange(0, chunks.length - 1),
+    isReady: (index) => urls.has(index),
+    sections: () => blobs.size === chunks.length ? chunks.map((_, i) => blobs.get(i)!) : null,
+    dispose: () => {
+      disposed = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    },
+  };
+};
+
+export const isReading = (chunk: NarrationChunk | null, paragraph: number) =>
+  !!chunk && paragraph >= chunk.first && paragraph <= chunk.last;
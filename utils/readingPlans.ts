@@ -0,0 +1,136 @@
+import { BOOKS, NEW_TESTAMENT_START, ScriptureRef } from './scriptureRef';
+
+// --- Reading Plans ---
+// A plan is a list of days, each a few chapter ranges. Built-in plans and custom plans
+// are both generated from a chapter list, so only a custom plan's books and length
+// need to be stored.
+
+export interface ReadingPlan {
+  id: string;
+  name: string;
+  description: string;
+  days: ScriptureRef[][];
+}
+
+export interface CustomPlanSpec {
+  id: string;
+  name: string;
+  books: number[]; // indexes into BOOKS, in reading order
+  days: number;
+}
+
+type Chapter = [book: number, chapter: number];
+
+const chaptersOf = (books: number[]): Chapter[] =>
+  books.flatMap(book => Array.from({ length: BOOKS[book].chapters }, (_, i) => [book, i + 1] as Chapter));
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+// Consecutive chapters of one book become a single "Genesis 1-3" reference
+const toRefs = (chapters: Chapter[]): ScriptureRef[] => {
+  const refs: ScriptureRef[] = [];
+  chapters.forEach(([book, chapter]) => {
+    const last = refs[refs.length - 1];
+    if (last && last.book === book && (last.endChapter ?? last.chapter) === chapter - 1) last.endChapter = chapter;
+    else refs.push({ book, chapter });
+  });
+  return refs;
+};
+
+// Splits chapters over the days as evenly as possible, keeping their order
+export const splitChapters = (chapters: Chapter[], days: number): ScriptureRef[][] => {
+  const count = Math.max(1, Math.min(days, chapters.length));
+  return range(0, count).map(day => {
+    const from = Math.round((day * chapters.length) / count);
+    const to = Math.round(((day + 1) * chapters.length) / count);
+    return toRefs(chapters.slice(from, to));
+  });
+};
+
+const PSALMS = 18;
+const PROVERBS = 19;
+
+// A chapter of Proverbs a day, with the Psalms spread over the same month
+const psalmsAndProverbs = (): ScriptureRef[][] => {
+  const psalms = splitChapters(chaptersOf([PSALMS]), 31);
+  return psalms.map((day, i) => [...day, { book: PROVERBS, chapter: i + 1 }]);
+};
+
+export const BUILT_IN_PLANS: ReadingPlan[] = [
+  {
+    id: 'bible-year',
+    name: 'Bible in a Year',
+    description: 'Genesis to Revelation in 365 days, about three chapters a day.',
+    days: splitChapters(chaptersOf(range(0, BOOKS.length)), 365),
+  },
+  {
+    id: 'nt-90',
+    name: 'New Testament in 90 Days',
+    description: 'Matthew to Revelation in three months, about three chapters a day.',
+    days: splitChapters(chaptersOf(range(NEW_TESTAMENT_START, BOOKS.length)), 90),
+  },
+  {
+    id: 'psalms-proverbs',
+    name: 'Psalms & Proverbs Monthly',
+    description: 'All 150 Psalms and the 31 chapters of Proverbs each month.',
+    days: psalmsAndProverbs(),
+  },
+];
+
+export const buildCustomPlan = ({ id, name, books, days }: CustomPlanSpec): ReadingPlan => {
+  const chapters = chaptersOf(books);
+  const plan = splitChapters(chapters, days);
+  return {
+    id,
+    name,
+    description: `${books.map(b => BOOKS[b].name).join(', ')} in ${plan.length} ${plan.length === 1 ? 'day' : 'days'}.`,
+    days: plan,
+  };
+};
+
+// --- Schedule ---
+// Dates are local calendar days as "YYYY-MM-DD", so a day's reading does not move when
+// the phone changes time zone.
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const dayNumber = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / (24 * 60 * 60 * 1000));
+};
+
+export const addDays = (key: string, days: number) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+};
+
+export interface PlanProgress {
+  planId: string;
+  startDate: string;
+  completed: number[]; // day indexes
+}
+
+export interface PlanStatus {
+  today: number;     // index of the day scheduled for today
+  missed: number[];  // earlier days not yet checked off
+  nextUnread: number | null;
+  done: number;
+  finished: boolean;
+}
+
+export const planStatus = (plan: ReadingPlan, progress: PlanProgress, now = new Date()): PlanStatus => {
+  const completed = new Set(progress.completed);
+  const elapsed = dayNumber(toDateKey(now)) - dayNumber(progress.startDate);
+  const today = Math.max(0, Math.min(elapsed, plan.days.length - 1));
+  const missed = range(0, Math.min(Math.max(elapsed, 0), plan.days.length)).filter(day => !completed.has(day));
+  const nextUnread = range(0, plan.days.length).find(day => !completed.has(day)) ?? null;
+  return { today, missed, nextUnread, done: completed.size, finished: nextUnread === null };
+};
+
+// Catch-up by rescheduling: the first unread day becomes today and the rest follow it.
+// Days already read keep their place.
+export const rescheduleFromNextUnread = (progress: PlanProgress, plan: ReadingPlan, now = new Date()): PlanProgress => {
+  const { nextUnread } = planStatus(plan, progress, now);
+  if (nextUnread === null) return progress;
+  return { ...progress, startDate: addDays(toDateKey(now), -nextUnread) };
+};
@@ -0,0 +1,306 @@
+import { allLocalizedNames, localizedBookNames } from './bookNames';
+
+// --- Scripture References ---
+// Canonical book list and a parser for references such as "Rom 8:28-39", "1 Cor 13",
+// "Jn 3:16; 4:1-3", "Genesis 1:1-2:3" or "Juan 3:16", plus a finder for references
+// inside running text.
+
+export interface BibleBook {
+  name: string;
+  chapters: number;
+  // Lowercase, without spaces or periods; the full name is always accepted too
+  aliases: string[];
+}
+
+// The first 39 are the Old Testament
+export const NEW_TESTAMENT_START = 39;
+
+export const BOOKS: BibleBook[] = [
+  { name: 'Genesis', chapters: 50, aliases: ['gen', 'ge', 'gn'] },
+  { name: 'Exodus', chapters: 40, aliases: ['exod', 'exo', 'ex'] },
+  { name: 'Leviticus', chapters: 27, aliases: ['lev', 'le', 'lv'] },
+  { name: 'Numbers', chapters: 36, aliases: ['num', 'nu', 'nm', 'nb'] },
+  { name: 'Deuteronomy', chapters: 34, aliases: ['deut', 'deu', 'dt'] },
+  { name: 'Joshua', chapters: 24, aliases: ['josh', 'jos', 'jsh'] },
+  { name: 'Judges', chapters: 21, aliases: ['judg', 'jdg', 'jg', 'jdgs'] },
+  { name: 'Ruth', chapters: 4, aliases: ['rth', 'ru'] },
+  { name: '1 Samuel', chapters: 31, aliases: ['1sam', '1sa', '1sm', '1s'] },
+  { name: '2 Samuel', chapters: 24, aliases: ['2sam', '2sa', '2sm', '2s'] },
+  { name: '1 Kings', chapters: 22, aliases: ['1kgs', '1ki', '1kg', '1k'] },
+  { name: '2 Kings', chapters: 25, aliases: ['2kgs', '2ki', '2kg', '2k'] },
+  { name: '1 Chronicles', chapters: 29, aliases: ['1chron', '1chr', '1ch'] },
+  { name: '2 Chronicles', chapters: 36, aliases: ['2chron', '2chr', '2ch'] },
+  { name: 'Ezra', chapters: 10, aliases: ['ezr', 'ez'] },
+  { name: 'Nehemiah', chapters: 13, aliases: ['neh', 'ne'] },
+  { name: 'Esther', chapters: 10, aliases: ['esth', 'est', 'es'] },
+  { name: 'Job', chapters: 42, aliases: ['jb'] },
+  { name: 'Psalms', chapters: 150, aliases: ['psalm', 'pslm', 'psa', 'psm', 'pss', 'ps'] },
+  { name: 'Proverbs', chapters: 31, aliases: ['prov', 'pro', 'prv', 'pr'] },
+  { name: 'Ecclesiastes', chapters: 12, aliases: ['eccles', 'eccl', 'ecc', 'ec', 'qoh'] },
+  { name: 'Song of Solomon', chapters: 8, aliases: ['song', 'sos', 'so', 'songofsongs', 'canticles', 'solomonssong', 'sg'] },
+  { name: 'Isaiah', chapters: 66, aliases: ['isa', 'is'] },
+  { name: 'Jeremiah', chapters: 52, aliases: ['jer', 'je', 'jr'] },
+  { name: 'Lamentations', chapters: 5, aliases: ['lam', 'la'] },
+  { name: 'Ezekiel', chapters: 48, aliases: ['ezek', 'eze', 'ezk'] },
+  { name: 'Daniel', chapters: 12, aliases: ['dan', 'da', 'dn'] },
+  { name: 'Hosea', chapters: 14, aliases: ['hos', 'ho'] },
+  { name: 'Joel', chapters: 3, aliases: ['jl'] },
+  { name: 'Amos', chapters: 9, aliases: ['am'] },
+  { name: 'Obadiah', chapters: 1, aliases: ['obad', 'ob'] },
+  { name: 'Jonah', chapters: 4, aliases: ['jnh', 'jon'] },
+  { name: 'Micah', chapters: 7, aliases: ['mic', 'mc'] },
+  { name: 'Nahum', chapters: 3, aliases: ['nah', 'na'] },
+  { name: 'Habakkuk', chapters: 3, aliases: ['hab', 'hb'] },
+  { name: 'Zephaniah', chapters: 3, aliases: ['zeph', 'zep', 'zp'] },
+  { name: 'Haggai', chapters: 2, aliases: ['hag', 'hg'] },
+  { name: 'Zechariah', chapters: 14, aliases: ['zech', 'zec', 'zc'] },
+  { name: 'Malachi', chapters: 4, aliases: ['mal', 'ml'] },
+  { name: 'Matthew', chapters: 28, aliases: ['matt', 'mat', 'mt'] },
+  { name: 'Mark', chapters: 16, aliases: ['mrk', 'mar', 'mk', 'mr'] },
+  { name: 'Luke', chapters: 24, aliases: ['luk', 'lk'] },
+  { name: 'John', chapters: 21, aliases: ['joh', 'jhn', 'jn'] },
+  { name: 'Acts', chapters: 28, aliases: ['act', 'ac'] },
+  { name: 'Romans', chapters: 16, aliases: ['rom', 'ro', 'rm'] },
+  { name: '1 Corinthians', chapters: 16, aliases: ['1cor', '1co'] },
+  { name: '2 Corinthians', chapters: 13, aliases: ['2cor', '2co'] },
+  { name: 'Galatians', chapters: 6, aliases: ['gal', 'ga'] },
+  { name: 'Ephesians', chapters: 6, aliases: ['eph', 'ephes'] },
+  { name: 'Philippians', chapters: 4, aliases: ['phil', 'php'] },
+  { name: 'Colossians', chapters: 4, aliases: ['col', 'co'] },
+  { name: '1 Thessalonians', chapters: 5, aliases: ['1thess', '1thes', '1th'] },
+  { name: '2 Thessalonians', chapters: 3, aliases: ['2thess', '2thes', '2th'] },
+  { name: '1 Timothy', chapters: 6, aliases: ['1tim', '1ti'] },
+  { name: '2 Timothy', chapters: 4, aliases: ['2tim', '2ti'] },
+  { name: 'Titus', chapters: 3, aliases: ['tit', 'ti'] },
+  { name: 'Philemon', chapters: 1, aliases: ['philem', 'phm', 'pm'] },
+  { name: 'Hebrews', chapters: 13, aliases: ['heb'] },
+  { name: 'James', chapters: 5, aliases: ['jas', 'jm'] },
+  { name: '1 Peter', chapters: 5, aliases: ['1pet', '1pe', '1pt', '1p'] },
+  { name: '2 Peter', chapters: 3, aliases: ['2pet', '2pe', '2pt', '2p'] },
+  { name: '1 John', chapters: 5, aliases: ['1jn', '1jhn', '1jo', '1j'] },
+  { name: '2 John', chapters: 1, aliases: ['2jn', '2jhn', '2jo', '2j'] },
+  { name: '3 John', chapters: 1, aliases: ['3jn', '3jhn', '3jo', '3j'] },
+  { name: 'Jude', chapters: 1, aliases: ['jud', 'jd'] },
+  { name: 'Revelation', chapters: 22, aliases: ['rev', 're', 'rv', 'revelations', 'apocalypse'] },
+];
+
+// Arabic-Indic, Devanagari, Bengali... digits and the full-width colon, one code unit each,
+// so offsets into the normalized text match the original
+const DIGIT_ZEROS = [0x660, 0x6f0, 0x966, 0x9e6, 0xa66, 0xae6, 0xbe6, 0xc66, 0xce6, 0xd66, 0xe50, 0xff10];
+
+export const normalizeNumerals = (text: string) =>
+  text.replace(/[\p{Nd}：]/gu, (ch) => {
+    if (ch === '：') return ':';
+    const code = ch.charCodeAt(0);
+    const zero = DIGIT_ZEROS.find(z => code >= z && code < z + 10);
+    return zero === undefined ? ch : String(code - zero);
+  });
+
+const normalizeBookName = (name: string) =>
+  normalizeNumerals(name).toLowerCase().trim()
+    .replace(/^(first|1st|i)\s+/, '1').replace(/^(second|2nd|ii)\s+/, '2').replace(/^(third|3rd|iii)\s+/, '3')
+    .replace(/[\s.'’]/g, '');
+
+const BOOK_INDEX = new Map<string, number>();
+BOOKS.forEach((book, i) => {
+  BOOK_INDEX.set(normalizeBookName(book.name), i);
+  book.aliases.forEach(alias => BOOK_INDEX.set(alias, i));
+});
+
+// Names that are unambiguous enough to stand without a verse ("Romans 8" but not "Am 5")
+const FULL_NAMES = new Set(BOOKS.map(book => normalizeBookName(book.name)));
+BOOK_INDEX.forEach((_, key) => { if (key.replace(/^\d/, '').length >= 4) FULL_NAMES.add(key); });
+// Psalms are usually cited by chapter alone
+FULL_NAMES.add('ps').add('psa');
+
+// Full names in any language; short forms only count in the reader's own language
+const LOCALIZED_INDEX = new Map<string, number>();
+allLocalizedNames().forEach(([name, i]) => {
+  const key = normalizeBookName(name);
+  if (key.replace(/^\d/, '').length >= 4 || key.length >= 2 && /[^\p{Script=Latin}]/u.test(key)) FULL_NAMES.add(key);
+  if (FULL_NAMES.has(key) && !LOCALIZED_INDEX.has(key)) LOCALIZED_INDEX.set(key, i);
+});
+
+const languageIndexes = new Map<string, Map<string, number>>();
+const languageIndex = (language: string) => {
+  if (!languageIndexes.has(language)) {
+    const index = new Map<string, number>();
+    localizedBookNames(language)?.forEach((names, i) => names.forEach(name => index.set(normalizeBookName(name), i)));
+    languageIndexes.set(language, index);
+  }
+  return languageIndexes.get(language)!;
+};
+
+// Index into BOOKS, or -1. The reader's language is tried first, so "Jn" is John in
+// English but Jonah in Portuguese.
+export const findBook = (name: string, language = ''): number => {
+  const key = normalizeBookName(name);
+  return languageIndex(language).get(key) ?? BOOK_INDEX.get(key) ?? LOCALIZED_INDEX.get(key) ?? -1;
+};
+
+export interface ScriptureRef {
+  book: number;        // index into BOOKS
+  chapter: number;
+  verse?: number;      // absent for a whole chapter
+  endChapter?: number;
+  endVerse?: number;
+}
+
+// German and Italian write chapter and verse as "Joh 3,16"
+const COMMA_VERSE_LANGUAGES = ['de', 'it'];
+const usesCommaVerse = (language: string) => COMMA_VERSE_LANGUAGES.includes(language.split('-')[0]);
+
+const WORD = `[\\p{L}\\p{M}][\\p{L}\\p{M}'’.\\-]*`;
+// Up to four words, shortest first, so "Mark 4 and Luke 5" is not read as one name
+const NAME = `(?:[1-5]\\.?\\s?)?${WORD}(?:\\s+(?:[1-5]\\.?\\s?)?${WORD}){0,3}?`;
+
+// Chapter and verse separators; a standalone query also accepts "Ps 23 v 1" and spaces
+const separator = (commaVerse: boolean, loose: boolean) =>
+  loose ? `\\s*(?:[:.${commaVerse ? ',' : ''}]|v\\.?)\\s*` : `[:.${commaVerse ? ',' : ''}]`;
+
+const itemPattern = (sep: string) => `\\d{1,3}(?:${sep}\\d{1,3})?(?:\\s*[-–—]\\s*\\d{1,3}(?:[:.]\\d{1,3})?)?`;
+
+// "John 3:16, 18; 4:1-3": further items after the first, stopping before "; 1 Cor 13"
+const listPattern = (sep: string) => `(?:\\s*[,;]\\s*${itemPattern(sep)}(?![\\s.]*[\\p{L}\\p{M}]+\\.?\\s*\\d))*`;
+
+const ITEM_PARTS = (sep: string) => new RegExp(`(^|[,;])\\s*(\\d{1,3})(?:(${sep})(\\d{1,3}))?(?:\\s*[-–—]\\s*(\\d{1,3})(?:[:.](\\d{1,3}))?)?`, 'g');
+
+// Only the shape is checked here. A chapter past the end of the book still parses, so
+// the citation check can report an invented "John 22:5" rather than never seeing it.
+const validRef = (ref: ScriptureRef) =>
+  ref.chapter >= 1 && (ref.endChapter === undefined || ref.endChapter >= ref.chapter);
+
+// Whether every chapter the reference spans exists in its book
+export const withinBook = (ref: ScriptureRef) =>
+  ref.chapter <= BOOKS[ref.book].chapters && (ref.endChapter ?? ref.chapter) <= BOOKS[ref.book].chapters;
+
+// "3:16, 18; 4:1-3" after the book name. A bare number after a comma continues the
+// verses of the current chapter; otherwise it is a chapter.
+const parseItems = (book: number, tail: string, sep: string): ScriptureRef[] => {
+  const refs: ScriptureRef[] = [];
+  let chapter = 0;
+  let afterVerse = false;
+  for (const [, lead, a, s, b, c, d] of tail.matchAll(ITEM_PARTS(sep))) {
+    let ref: ScriptureRef;
+    if (s) {
+      ref = { book, chapter: Number(a), verse: Number(b) };
+    } else if (lead === ',' && afterVerse) {
+      ref = { book, chapter, verse: Number(a) };
+    } else {
+      ref = { book, chapter: Number(a) };
+    }
+    if (c) {
+      if (d) {
+        // "1:1-2:3" spans chapters
+        ref.endChapter = Number(c);
+        ref.endVerse = Number(d);
+      } else if (ref.verse !== undefined) {
+        ref.endVerse = Number(c);
+      } else {
+        // "Psalm 1-2" is a run of whole chapters
+        ref.endChapter = Number(c);
+      }
+    }
+    if (!validRef(ref)) return [];
+    chapter = ref.endChapter ?? ref.chapter;
+    afterVerse = ref.verse !== undefined;
+    refs.push(ref);
+  }
+  return refs;
+};
+
+const queryPatterns = new Map<string, RegExp>();
+const queryPattern = (language: string) => {
+  if (!queryPatterns.has(language)) {
+    const sep = separator(usesCommaVerse(language), true);
+    queryPatterns.set(language, new RegExp(`^\\s*(${NAME})\\s*(${itemPattern(sep)}${listPattern(sep)})[.?!]*\\s*$`, 'u'));
+  }
+  return queryPatterns.get(language)!;
+};
+
+// Every passage in a query made only of references, or [] if it is anything else
+export const parseReferenceList = (text: string, language = ''): ScriptureRef[] => {
+  const match = normalizeNumerals(text).match(queryPattern(language));
+  if (!match) return [];
+  const book = findBook(match[1], language);
+  if (book < 0) return [];
+  return parseItems(book, match[2], separator(usesCommaVerse(language), true));
+};
+
+// "Rom 8:28-39", "Romans 8", "Gen 1:1-2:3", "Ps 23 v 1" (en dash and "v." accepted)
+export const parseReference = (text: string, language = ''): ScriptureRef | null => {
+  const refs = parseReferenceList(text, language);
+  return refs.length === 1 ? refs[0] : null;
+};
+
+export interface ReferenceMatch {
+  start: number;
+  end: number;
+  text: string;
+  refs: ScriptureRef[];
+}
+
+// Scripts written without spaces, where a book name can follow other words directly
+const UNSPACED_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+const textPatterns = new Map<string, RegExp>();
+const textPattern = (language: string) => {
+  if (!textPatterns.has(language)) {
+    const sep = separator(usesCommaVerse(language), false);
+    textPatterns.set(language, new RegExp(`(?<=^|[^\\p{L}\\p{M}\\d]|${UNSPACED_RE.source})(${NAME})\\s*(${itemPattern(sep)}${listPattern(sep)})(?!\\d)`, 'gu'));
+  }
+  return textPatterns.get(language)!;
+};
+
+// Where the book name may begin inside the words before a chapter number, longest first
+const nameStarts = (name: string): number[] => {
+  const starts = [0];
+  for (let i = 1; i < name.length; i++) if (/\s/.test(name[i - 1]) && !/\s/.test(name[i])) starts.push(i);
+  const last = starts[starts.length - 1];
+  if (UNSPACED_RE.test(name.slice(last))) for (let i = last + 1; i < name.length; i++) starts.push(i);
+  return starts;
+};
+
+// A lowercase Latin "am 5:3" is ordinary prose, not Amos
+const startsLowercase = (name: string) => {
+  const letter = name.match(/\p{L}/u)?.[0] || '';
+  return letter !== letter.toUpperCase() && letter === letter.toLowerCase();
+};
+
+// Every reference in running text, with its position, in the order they appear
+export const findReferences = (text: string, language = ''): ReferenceMatch[] => {
+  const normalized = normalizeNumerals(text);
+  const sep = separator(usesCommaVerse(language), false);
+  const found: ReferenceMatch[] = [];
+  const pattern = textPattern(language);
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(normalized))) {
+    const [whole, candidate, tail] = match;
+    const hit = nameStarts(candidate).map(offset => ({ offset, name: candidate.slice(offset) })).find(({ name }) => {
+      if (startsLowercase(name)) return false;
+      const book = findBook(name, language);
+      return book >= 0 && parseItems(book, tail, sep).length > 0;
+    });
+    const refs = hit ? parseItems(findBook(hit.name, language), tail, sep) : [];
+    if (!hit || (refs.every(ref => ref.verse === undefined) && !FULL_NAMES.has(normalizeBookName(hit.name)))) {
+      // "see 1 Cor 13" first matches "see" + 1; look again from the next word
+      pattern.lastIndex = match.index + 1;
+      continue;
+    }
+    const start = match.index + hit.offset;
+    const end = match.index + whole.length;
+    found.push({ start, end, text: text.slice(start, end), refs });
+  }
+  return found;
+};
+
+export const formatReference = ({ book, chapter, verse, endChapter, endVerse }: ScriptureRef): string => {
+  let text = `${BOOKS[book].name} ${chapter}`;
+  if (verse !== undefined) text += `:${verse}`;
+  if (endChapter !== undefined && endChapter !== chapter) text += `-${endChapter}${endVerse !== undefined ? `:${endVerse}` : ''}`;
+  else if (endVerse !== undefined && endVerse !== verse) text += `-${endVerse}`;
+  return text;
+};
+
+export const formatReferenceList = (refs: ScriptureRef[]) => refs.map(formatReference).join('; ');
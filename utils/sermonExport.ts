@@ -0,0 +1,199 @@
+import { createZip } from './zip';
+
+// --- Sermon Document Export ---
+// Turns the Markdown that generateSermon returns into a printable HTML page and a
+// .docx manuscript, keeping headings, scripture quotes and lists.
+
+export type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+interface Run { text: string; bold?: boolean; italic?: boolean; }
+
+export const parseMarkdownBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    if (quote.length) blocks.push({ type: 'quote', text: quote.join(' ') });
+    paragraph = [];
+    quote = [];
+  };
+
+  markdown.replace(/\r\n/g, '\n').split('\n').forEach(raw => {
+    const line = raw.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const quoted = line.match(/^>\s?(.*)$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].replace(/#+$/, '').trim() });
+    } else if (quoted) {
+      if (paragraph.length) flush();
+      quote.push(quoted[1]);
+    } else if (bullet || numbered) {
+      flush();
+      const ordered = !!numbered;
+      const text = (bullet || numbered)![1];
+      const last = blocks[blocks.length - 1];
+      if (last && last.type === 'list' && last.ordered === ordered) last.items.push(text);
+      else blocks.push({ type: 'list', ordered, items: [text] });
+    } else {
+      if (quote.length) flush();
+      paragraph.push(line);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+// **bold**, *italic* and _italic_ runs; links keep their label
+const parseInline = (text: string): Run[] => {
+  const runs: Run[] = [];
+  const clean = text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/`/g, '');
+  const pattern = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*]+\*|_[^_]+_)/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(clean))) {
+    if (match.index > last) runs.push({ text: clean.slice(last, match.index) });
+    const token = match[0];
+    if (token.startsWith('**') || token.startsWith('__')) runs.push({ text: token.slice(2, -2), bold: true });
+    else runs.push({ text: token.slice(1, -1), italic: true });
+    last = match.index + token.length;
+  }
+  if (last < clean.length) runs.push({ text: clean.slice(last) });
+  return runs;
+};
+
+export const getSermonTitle = (markdown: string): string => {
+  const blocks = parseMarkdownBlocks(markdown);
+  const heading = blocks.find(b => b.type === 'heading') as { text: string } | undefined;
+  const first = heading?.text || (blocks[0] && 'text' in blocks[0] ? blocks[0].text : '') || 'Sermon';
+  return parseInline(first).map(r => r.text).join('').replace(/^title:\s*/i, '').trim();
+};
+
+// --- HTML ---
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const runsToHtml = (text: string) => parseInline(text).map(run => {
+  let html = escapeHtml(run.text);
+  if (run.bold) html = `<strong>${html}</strong>`;
+  if (run.italic) html = `<em>${html}</em>`;
+  return html;
+}).join('');
+
+// `language` is the sermon's (a BCP 47 tag such as "es-ES"), for hyphenation and screen readers
+export const sermonToHtml = (markdown: string, language = 'en'): string => {
+  const title = getSermonTitle(markdown);
+  const body = parseMarkdownBlocks(markdown).map(block => {
+    switch (block.type) {
+      case 'heading': return `<h${Math.min(block.level, 4)}>${runsToHtml(block.text)}</h${Math.min(block.level, 4)}>`;
+      case 'quote': return `<blockquote>${runsToHtml(block.text)}</blockquote>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>${block.items.map(item => `<li>${runsToHtml(item)}</li>`).join('')}</${tag}>`;
+      }
+      default: return `<p>${runsToHtml(block.text)}</p>`;
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 2.2cm 2cm; }
+  body { font-family: 'Merriweather', Georgia, 'Times New Roman', serif; font-size: 12pt; line-height: 1.7; color: #1e293b; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 22pt; text-align: center; margin: 0 0 1.5rem; }
+  h2 { font-size: 15pt; margin: 1.8rem 0 0.6rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.2rem; page-break-after: avoid; }
+  h3, h4 { font-size: 12.5pt; margin: 1.2rem 0 0.4rem; page-break-after: avoid; }
+  blockquote { margin: 1rem 0; padding: 0.6rem 1rem; border-left: 4px solid #6366f1; background: #eef2ff; font-style: italic; page-break-inside: avoid; }
+  ul, ol { padding-left: 1.5rem; }
+  footer { margin-top: 3rem; font-size: 9pt; color: #94a3b8; text-align: center; }
+  @media print { body { margin: 0; max-width: none; } blockquote { background: none; } }
+</style>
+</head>
+<body>
+${body}
+<footer>Prepared with FaithWalk AI</footer>
+</body>
+</html>`;
+};
+
+// --- DOCX ---
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const runsToXml = (text: string) => parseInline(text).map(run => {
+  const props = `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}`;
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}).join('');
+
+const paragraphXml = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runsToXml(text)}</w:p>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="24"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:after="360"/></w:pPr><w:rPr><w:b/><w:sz w:val="44"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="567" w:right="567"/><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="6366F1"/></w:pBdr></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="567" w:hanging="283"/><w:spacing w:after="60"/></w:pPr></w:style>
+</w:styles>`;
+
+export const sermonToDocx = (markdown: string): Blob => {
+  let titleUsed = false;
+  const body = parseMarkdownBlocks(markdown).map(block => {
+    switch (block.type) {
+      case 'heading':
+        // The first top-level heading is the sermon title
+        if (block.level === 1 && !titleUsed) { titleUsed = true; return paragraphXml(block.text, 'Title'); }
+        return paragraphXml(block.text, `Heading${Math.min(block.level, 3)}`);
+      case 'quote': return paragraphXml(block.text, 'Quote');
+      case 'list': return block.items.map((item, i) => paragraphXml(`${block.ordered ? `${i + 1}.` : '•'} ${item}`, 'ListParagraph')).join('');
+      default: return paragraphXml(block.text);
+    }
+  }).join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1247" w:right="1134" w:bottom="1247" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const zip = createZip([
+    { path: '[Content_Types].xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>` },
+    { path: '_rels/.rels', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>` },
+    { path: 'word/_rels/document.xml.rels', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>` },
+    { path: 'word/document.xml', content: document },
+    { path: 'word/styles.xml', content: DOCX_STYLES },
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
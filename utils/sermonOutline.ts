@@ -0,0 +1,229 @@
+// --- Sermon Outline ---
+// Splits the Markdown that generateSermon returns into the sections of the prompt's
+// structure (title, prayer, intro, points, conclusion) so each can be edited or
+// rewritten on its own, and joins them back into Markdown.
+
+export interface SermonSection {
+  heading: string;
+  body: string;
+}
+
+export type PointPart = 'scripture' | 'explanation' | 'application';
+
+export interface SermonPoint {
+  heading: string;
+  scripture: SermonSection;
+  explanation: SermonSection;
+  application: SermonSection;
+}
+
+export interface SermonOutline {
+  title: string;
+  prayer: SermonSection;
+  intro: SermonSection;
+  points: SermonPoint[];
+  conclusion: SermonSection;
+}
+
+export type SectionKey = 'prayer' | 'intro' | 'conclusion' | `points.${number}.${PointPart}`;
+
+export const POINT_PARTS: PointPart[] = ['scripture', 'explanation', 'application'];
+
+const PART_HEADINGS: Record<PointPart, string> = {
+  scripture: 'Scripture',
+  explanation: 'Explanation',
+  application: 'Application',
+};
+
+const section = (heading: string, body = ''): SermonSection => ({ heading, body });
+
+const emptyPoint = (heading: string): SermonPoint => ({
+  heading,
+  scripture: section(PART_HEADINGS.scripture),
+  explanation: section(PART_HEADINGS.explanation),
+  application: section(PART_HEADINGS.application),
+});
+
+// English keywords plus the most common app languages; anything unmatched is a point
+// Numbered headings are points even when they mention prayer ("Point 3: Pray Without Ceasing")
+const POINT_RE = /^(point|punto|ponto|punkt|poin|\d+[.):]|[IVX]+[.):])/i;
+const PRAYER_RE = /pray|prayer|oraci[oó]n|ora[cç][aã]o|pri[eè]re|gebet|preghiera|doa/i;
+const INTRO_RE = /intro|einleitung|einf[uü]hrung|pendahuluan/i;
+const CONCLUSION_RE = /conclu|schluss|fazit|kesimpulan|closing/i;
+const SCRIPTURE_RE = /scripture|\btext\b|passage|reading|escritura|[eé]criture|schrift|bibel|ayat|lectura/i;
+const EXPLANATION_RE = /explan|exeg|meaning|explica|erkl[aä]r|penjelasan|spiegazione/i;
+const APPLICATION_RE = /appl|aplica|anwendung|penerapan|applicazione/i;
+
+interface RawSection { heading: string; lines: string[]; }
+
+const cleanHeading = (text: string) => text.replace(/#+$/, '').replace(/\*\*/g, '').replace(/:\s*$/, '').trim();
+
+// Lines that are bold on their own ("**Introduction**") count as headings when the
+// model skipped Markdown headings altogether
+const boldHeading = (line: string) => line.match(/^\*\*([^*]+?)\*\*:?$/);
+
+// Splits lines at headings of the given level; text before the first heading is returned separately
+const splitSections = (lines: string[], level: number, allowBold: boolean): { lead: string[]; sections: RawSection[] } => {
+  const lead: string[] = [];
+  const sections: RawSection[] = [];
+  const pattern = new RegExp(`^#{${level}}\\s+(.*)$`);
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    const match = trimmed.match(pattern) || (allowBold ? boldHeading(trimmed) : null);
+    if (match) sections.push({ heading: cleanHeading(match[1]), lines: [] });
+    else if (sections.length) sections[sections.length - 1].lines.push(line);
+    else lead.push(line);
+  });
+  return { lead, sections };
+};
+
+const joinLines = (lines: string[]) => lines.join('\n').replace(/^\s*\n/, '').replace(/\s+$/, '');
+
+// "**Scripture:** Romans 8:28" style labels inside a point
+const inlineLabel = (line: string) => line.trim().match(/^\*\*([^*]+?):?\*\*:?\s*(.*)$|^(\w[\w ]{0,20}):\s+(.*)$/);
+
+const classifyPart = (heading: string): PointPart | null =>
+  SCRIPTURE_RE.test(heading) ? 'scripture' : EXPLANATION_RE.test(heading) ? 'explanation' : APPLICATION_RE.test(heading) ? 'application' : null;
+
+const parsePoint = (raw: RawSection): SermonPoint => {
+  const point = emptyPoint(raw.heading);
+  let { lead, sections } = splitSections(raw.lines, 3, false);
+
+  // No sub-headings: fall back to bold or "Label:" lines that name a part
+  if (sections.length === 0) {
+    lead = [];
+    raw.lines.forEach(line => {
+      const label = inlineLabel(line);
+      const heading = label ? (label[1] || label[3]) : '';
+      if (label && classifyPart(heading)) {
+        const rest = label[2] ?? label[4] ?? '';
+        sections.push({ heading: cleanHeading(heading), lines: rest ? [rest] : [] });
+      } else if (sections.length) {
+        sections[sections.length - 1].lines.push(line);
+      } else {
+        lead.push(line);
+      }
+    });
+  }
+
+  let parts = sections.map(sub => classifyPart(sub.heading));
+  // Labels in a language we do not recognize: take them in the prompt's order
+  if (parts.every(part => part === null)) parts = sections.map((_, i) => POINT_PARTS[i] || null);
+
+  // Extra sub-sections (Deep Theology's word studies, history) stay with the part they follow
+  let current: PointPart = 'explanation';
+  sections.forEach((sub, i) => {
+    const part = parts[i];
+    const body = joinLines(sub.lines);
+    if (part && !point[part].body) {
+      point[part] = section(sub.heading, body);
+      current = part;
+    } else {
+      point[current].body = [point[current].body, `**${sub.heading}**\n\n${body}`].filter(Boolean).join('\n\n');
+    }
+  });
+
+  const leadText = joinLines(lead);
+  if (leadText) {
+    // A bare quote before any label is the point's scripture
+    if (!point.scripture.body && /^>/.test(leadText.trim())) point.scripture.body = leadText;
+    else point.explanation.body = [leadText, point.explanation.body].filter(Boolean).join('\n\n');
+  }
+  return point;
+};
+
+export const parseSermonOutline = (markdown: string): SermonOutline => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const outline: SermonOutline = {
+    title: '',
+    prayer: section('Opening Prayer'),
+    intro: section('Introduction'),
+    points: [],
+    conclusion: section('Conclusion'),
+  };
+
+  const titleIndex = lines.findIndex(line => /^#\s+/.test(line.trim()));
+  if (titleIndex >= 0) {
+    outline.title = cleanHeading(lines[titleIndex].trim().replace(/^#\s+/, ''));
+    lines.splice(titleIndex, 1);
+  }
+
+  let { lead, sections } = splitSections(lines, 2, false);
+  if (sections.length === 0) ({ lead, sections } = splitSections(lines, 2, true));
+
+  if (!outline.title) {
+    // Untitled sermons usually open with "**Title:** ..." or a bold first line
+    const first = lead.findIndex(line => line.trim());
+    const label = first >= 0 ? lead[first].trim().match(/^\*\*([^*]+?):?\*\*:?\s*(.*)$/) : null;
+    if (label) {
+      outline.title = cleanHeading(label[2] || label[1]);
+      lead.splice(first, 1);
+    }
+  }
+
+  type Kind = 'point' | 'prayer' | 'intro' | 'conclusion';
+  const classified = sections.map((raw): Kind =>
+    POINT_RE.test(raw.heading) ? 'point' : PRAYER_RE.test(raw.heading) ? 'prayer' : INTRO_RE.test(raw.heading) ? 'intro' : CONCLUSION_RE.test(raw.heading) ? 'conclusion' : 'point'
+  );
+  // Nothing recognized (an unfamiliar language): assume the prompt's order
+  if (sections.length >= 4 && !classified.some(kind => kind !== 'point')) {
+    classified[0] = 'prayer';
+    classified[1] = 'intro';
+    classified[classified.length - 1] = 'conclusion';
+  }
+
+  sections.forEach((raw, i) => {
+    const kind = classified[i];
+    if (kind === 'point' || outline[kind].body) {
+      outline.points.push(parsePoint(raw));
+    } else {
+      outline[kind] = section(raw.heading, joinLines(raw.lines));
+    }
+  });
+
+  const leadText = joinLines(lead);
+  if (leadText) outline.intro.body = [leadText, outline.intro.body].filter(Boolean).join('\n\n');
+  return outline;
+};
+
+export const outlineToMarkdown = (outline: SermonOutline): string => {
+  const parts: string[] = [];
+  if (outline.title.trim()) parts.push(`# ${outline.title.trim()}`);
+  const add = (heading: string, body: string, level: number) => {
+    if (body.trim()) parts.push(`${'#'.repeat(level)} ${heading.trim()}`, body.trim());
+  };
+  add(outline.prayer.heading, outline.prayer.body, 2);
+  add(outline.intro.heading, outline.intro.body, 2);
+  outline.points.forEach(point => {
+    if (!POINT_PARTS.some(p => point[p].body.trim()) && !point.heading.trim()) return;
+    parts.push(`## ${point.heading.trim()}`);
+    POINT_PARTS.forEach(p => add(point[p].heading, point[p].body, 3));
+  });
+  add(outline.conclusion.heading, outline.conclusion.body, 2);
+  return parts.join('\n\n') + '\n';
+};
+
+export const getSection = (outline: SermonOutline, key: SectionKey): SermonSection => {
+  if (key === 'prayer' || key === 'intro' || key === 'conclusion') return outline[key];
+  const [, index, part] = key.split('.');
+  return outline.points[Number(index)][part as PointPart];
+};
+
+export const updateSection = (outline: SermonOutline, key: SectionKey, body: string): SermonOutline => {
+  if (key === 'prayer' || key === 'intro' || key === 'conclusion') {
+    return { ...outline, [key]: { ...outline[key], body } };
+  }
+  const [, index, part] = key.split('.');
+  const points = outline.points.map((point, i) =>
+    i === Number(index) ? { ...point, [part]: { ...point[part as PointPart], body } } : point
+  );
+  return { ...outline, points };
+};
+
+// Human-readable name for prompts and labels, e.g. "Point 2 (The Cross) – Application"
+export const sectionLabel = (outline: SermonOutline, key: SectionKey): string => {
+  if (key === 'prayer' || key === 'intro' || key === 'conclusion') return outline[key].heading;
+  const [, index, part] = key.split('.');
+  const point = outline.points[Number(index)];
+  return `Point ${Number(index) + 1} (${point.heading}) – ${point[part as PointPart].heading}`;
+};
@@ -0,0 +1,106 @@
+import { pcmToWav } from './audioUtils';
+
+// --- Session Recorder ---
+// Keeps both sides of a Live session on one timeline: the microphone as it is streamed
+// (16 kHz) and the counselor's replies where they were scheduled to play (24 kHz). At the
+// end they are mixed into a single 24 kHz WAV. Samples are held as 16-bit PCM, half the
+// memory of floats, and recording stops at MAX_RECORDING_SECONDS.
+
+export const INPUT_RATE = 16000;
+export const OUTPUT_RATE = 24000;
+export const MAX_RECORDING_SECONDS = 20 * 60;
+
+const toInt16 = (samples: Float32Array) => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return out;
+};
+
+// Linear resampling, used to bake the playback speed into a reply
+const resample = (samples: Float32Array, ratio: number) => {
+  if (ratio === 1) return samples;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const j = Math.floor(pos);
+    const next = j + 1 < samples.length ? samples[j + 1] : samples[j];
+    out[i] = samples[j] + (next - samples[j]) * (pos - j);
+  }
+  return out;
+};
+
+interface OutputSegment {
+  start: number; // sample offset at OUTPUT_RATE
+  samples: Int16Array;
+}
+
+export interface SessionRecording {
+  wav: ArrayBuffer;
+  duration: number; // seconds
+}
+
+export const createSessionRecorder = () => {
+  const input: Int16Array[] = [];
+  let inputLength = 0;
+  let segments: OutputSegment[] = [];
+  const maxInput = MAX_RECORDING_SECONDS * INPUT_RATE;
+  const maxOutput = MAX_RECORDING_SECONDS * OUTPUT_RATE;
+
+  return {
+    // Microphone PCM at INPUT_RATE, in the order it was captured
+    addInput: (samples: Int16Array) => {
+      if (inputLength >= maxInput) return;
+      const chunk = samples.subarray(0, maxInput - inputLength);
+      input.push(chunk);
+      inputLength += chunk.length;
+    },
+
+    // A reply chunk at OUTPUT_RATE, starting `at` seconds into the session, played at `speed`
+    addOutput: (samples: Float32Array, at: number, speed = 1) => {
+      const start = Math.max(0, Math.round(at * OUTPUT_RATE));
+      if (start >= maxOutput) return;
+      segments.push({ start, samples: toInt16(resample(samples, speed).subarray(0, maxOutput - start)) });
+    },
+
+    // The user interrupted: drop whatever was scheduled after `at` seconds but never heard
+    interrupt: (at: number) => {
+      const cut = Math.round(at * OUTPUT_RATE);
+      segments = segments
+        .filter(s => s.start < cut)
+        .map(s => s.start + s.samples.length > cut ? { ...s, samples: s.samples.subarray(0, cut - s.start) } : s);
+    },
+
+    isFull: () => inputLength >= maxInput,
+
+    mixdown: (): SessionRecording | null => {
+      const outputEnd = segments.reduce((end, s) => Math.max(end, s.start + s.samples.length), 0);
+      const length = Math.max(Math.ceil(inputLength * OUTPUT_RATE / INPUT_RATE), outputEnd);
+      if (length === 0) return null;
+      const mix = new Float32Array(length);
+
+      // Microphone, upsampled to the output rate
+      const mic = new Int16Array(inputLength);
+      let offset = 0;
+      input.forEach(chunk => { mic.set(chunk, offset); offset += chunk.length; });
+      const ratio = INPUT_RATE / OUTPUT_RATE;
+      for (let i = 0; i < length; i++) {
+        const pos = i * ratio;
+        const j = Math.floor(pos);
+        if (j >= inputLength) break;
+        const next = j + 1 < inputLength ? mic[j + 1] : mic[j];
+        mix[i] = (mic[j] + (next - mic[j]) * (pos - j)) / 32768;
+      }
+
+      segments.forEach(({ start, samples }) => {
+        for (let i = 0; i < samples.length; i++) mix[start + i] += samples[i] / 32768;
+      });
+
+      return { wav: pcmToWav(mix, OUTPUT_RATE), duration: length / OUTPUT_RATE };
+    },
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
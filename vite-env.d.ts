@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Provider used until one is chosen in settings: 'gemini', 'openai' or 'fixture'
+  readonly VITE_MODEL_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}